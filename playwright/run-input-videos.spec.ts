@@ -40,7 +40,7 @@ const formatRunTimestamp = (date: Date): string => {
   ].join("")
 }
 
-test("processes all videos in artifacts/input and exports png outputs in a timestamped folder", async ({ page }) => {
+test("processes all videos in artifacts/input and exports results in a timestamped folder", async ({ page }) => {
   const perFileProcessTimeoutMs = DEFAULT_PER_FILE_PROCESS_TIMEOUT_MS
 
   const entries = await fs.readdir(INPUT_DIR, { withFileTypes: true })
@@ -60,6 +60,9 @@ test("processes all videos in artifacts/input and exports png outputs in a times
   const fileInputSelector = 'input[type="file"]'
   const resultImage = page.getByAltText(RESULT_IMAGE_ALT)
   const clearResultButton = page.getByRole("button", { name: "Clear" })
+  // A fresh browser context has default settings, so downloads are PNG.
+  const downloadImageButton = page.getByRole("button", { name: "Download PNG" })
+  const exportJsonButton = page.getByRole("button", { name: "Export JSON" })
 
   for (let index = 0; index < videoFiles.length; index += 1) {
     const fileName = videoFiles[index]
@@ -71,17 +74,16 @@ test("processes all videos in artifacts/input and exports png outputs in a times
         await page.setInputFiles(fileInputSelector, fullInputPath)
         await expect(resultImage).toBeVisible({ timeout: perFileProcessTimeoutMs })
 
-        const src = await resultImage.getAttribute("src")
-        if (!src || !src.startsWith("data:image/png;base64,")) {
-          throw new Error(`Result image for ${fileName} is missing or not a PNG data URL.`)
-        }
-
+        const [imageDownload] = await Promise.all([page.waitForEvent("download"), downloadImageButton.click()])
         const outputFileName = `${path.parse(fileName).name}.png`
-        const outputFilePath = path.join(outputDir, outputFileName)
-        const base64Data = src.replace("data:image/png;base64,", "")
-        await fs.writeFile(outputFilePath, Buffer.from(base64Data, "base64"))
+        await imageDownload.saveAs(path.join(outputDir, outputFileName))
+
+        // The structured result (per-cell frames, metrics, timings) goes next to the image.
+        const [reportDownload] = await Promise.all([page.waitForEvent("download"), exportJsonButton.click()])
+        const reportFileName = `${path.parse(fileName).name}.json`
+        await reportDownload.saveAs(path.join(outputDir, reportFileName))
 
-        console.log(`[${index + 1}/${videoFiles.length}] Saved ${outputFileName}`)
+        console.log(`[${index + 1}/${videoFiles.length}] Saved ${outputFileName} and ${reportFileName}`)
 
         await clearResultButton.click()
         await expect(resultImage).toBeHidden({ timeout: Math.min(10_000, perFileProcessTimeoutMs) })
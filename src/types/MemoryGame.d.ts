@@ -21,7 +21,13 @@ type CardCandidate = {
   score: number
 }
 
-type CardLayoutPercent = {
+type CardGridSize = {
+  cols: number
+  rows: number
+}
+
+// Cells are numbered in reading order: `row * cols + col`.
+type CardLayoutPercent = CardGridSize & {
   left: number
   top: number
   cardWidth: number
@@ -30,7 +36,215 @@ type CardLayoutPercent = {
   gapY: number
 }
 
+type CardLayoutProfile = {
+  id: string
+  name: string
+  layout: CardLayoutPercent
+}
+
 type ErrorNotice = {
   title: string
   description: string
 }
+
+type CardPair = {
+  pairIndex: number
+  cells: [number, number]
+  similarity: number
+  confidence: number
+}
+
+type ProcessingOptions = {
+  // Process only N frames per second (skip intermediate frames).
+  fps: number
+  // Rate of the coarse scan that locates the gameplay segment and the face-down baseline.
+  scanFps: number
+  // Calm face-down frames combined into a per-pixel median baseline; 1 uses the chosen frame as-is.
+  baselineMedianFrames: number
+  // Scale frame before merging (0.5 = 50% of original size).
+  scaleDown: number
+  // Scale for whole-frame motion/baseline metrics (capped at `scaleDown`).
+  analysisScaleDown: number
+  // Pixel-difference threshold (0-255) to consider a pixel "changed" against the baseline.
+  threshold: number
+  // Pixel-difference threshold (0-255) between consecutive frames to count as motion.
+  motionThreshold: number
+  // Active-range extraction: accepted share of the board that differs from the baseline.
+  minBaselineRatio: number
+  maxBaselineRatio: number
+  minMotionRatio: number
+  minActiveStreak: number
+  marginFrames: number
+  // Per-card merge: minimum revealed share and maximum in-cell motion of a usable frame.
+  cardMinDiffRatio: number
+  cardMaxLocalMotionRatio: number
+  // Still face-up frames per card that are aligned and median-fused; 1 copies the middle frame as-is.
+  fusedFrameCount: number
+  sharpenStrength: number
+}
+
+type HistorySettings = {
+  isEnabled: boolean
+  // Needed to re-process or re-pick frames later, but usually much larger than the image.
+  isSourceVideoStored: boolean
+  quotaMb: number
+}
+
+type ImageExportFormat = "png" | "webp" | "jpeg"
+
+type ImageExportSettings = {
+  format: ImageExportFormat
+  // 0-1, ignored for PNG.
+  quality: number
+}
+
+type UserSettings = {
+  isAutoStopEnabled: boolean
+  autoStopSeconds: number
+  isConnectedPreviewVisible: boolean
+  isLiveProcessingEnabled: boolean
+  processingOptions: ProcessingOptions
+  layoutProfiles: CardLayoutProfile[]
+  // Null uses the built-in default layout, split into `cardGridSize` cards.
+  selectedLayoutProfileId: string | null
+  cardGridSize: CardGridSize
+  isDebugPanelEnabled: boolean
+  // Detect the board on the baseline frame; the selected layout is the fallback.
+  isLayoutDetectionEnabled: boolean
+  imageExport: ImageExportSettings
+  history: HistorySettings
+}
+
+// Inclusive range of sampled frame indices.
+type FrameRange = {
+  start: number
+  end: number
+}
+
+// Missing cells never showed a revealed card and keep the face-down baseline pixels.
+type CellStatus = "revealed" | "low-confidence" | "missing"
+
+// One flip of a card in frame indices: from leaving the face-down state until it is back
+// (or the last merged frame when it never turned back).
+type RevealSpan = FrameRange & {
+  // Longest still face-up stretch; its middle frame is the reveal's candidate. Null if it never stood still.
+  plateau: FrameRange | null
+}
+
+type CellResult = {
+  status: CellStatus
+  // Frame the cell was taken from; null when the card never showed up revealed.
+  frameIndex: number | null
+  score: number
+  // Best-scoring frames for this cell, highest first.
+  candidates: CardCandidate[]
+  // Every reveal of the card, oldest first.
+  reveals: RevealSpan[]
+  // Frames fused into the result for this card (at most `options.fusedFrameCount`, 0 when missing).
+  fusedFrameCount: number
+  // Set when the user pinned `frameIndex` by hand.
+  isManualOverride: boolean
+}
+
+// What covered the board in a frame that was kept out of the merge (see classifyFrameOverlay).
+type OverlayKind = "dimmed" | "dialog" | "banner"
+
+type RejectedFrame = {
+  frameIndex: number
+  reason: OverlayKind
+}
+
+// How the face-down reference board was picked.
+type BaselineSelection = {
+  // Video time (seconds) of the chosen frame.
+  time: number
+  // 0-1: face-down share of the chosen frame times the share of candidates showing the same board.
+  confidence: number
+  // Frames of the median baseline, starting with `time`; just `time` without a median.
+  frameTimes: number[]
+  // Whether the gameplay scan scored frames on a board detected in the video rather than the configured layout.
+  isScanLayoutDetected: boolean
+}
+
+// Worker-side durations in milliseconds.
+type ProcessingTimings = {
+  analysisMs: number
+  mergeMs: number
+  finalizeMs: number
+  totalMs: number
+}
+
+// Extra data for the debug panel; only collected while it is enabled.
+type ProcessingDiagnostics = {
+  baselineImageUrl: string
+  // Cell crops of every candidate frame, same order as `cells[i].candidates`.
+  candidateImageUrls: string[][]
+}
+
+type ProcessingResult = {
+  // Identifies the processing run (all previews of a live run share it); manual overrides keep it.
+  runId: string
+  image: Blob
+  imageUrl: string
+  frameWidth: number
+  frameHeight: number
+  // Area copied into the result per cell.
+  cellRects: Rect[]
+  // Inner area each cell is scored and matched on.
+  evalRects: Rect[]
+  // Same order as `cellRects`.
+  cells: CellResult[]
+  pairs: CardPair[]
+  // Seconds; for live results, the capture time of the last frame.
+  videoDuration: number
+  // Null for live results, which use the first captured frame.
+  baseline: BaselineSelection | null
+  // Video time (seconds) of frame index 0: the start of the gameplay segment, or the first capture for live results.
+  firstFrameTime: number
+  // Live results only: capture time (seconds into the recording) of every frame, since captures that
+  // cannot keep up are dropped. Null when frames were sampled at `options.fps` from `firstFrameTime`.
+  frameTimes: number[] | null
+  // One entry per sampled frame (`options.fps`); frame indices elsewhere point into this list.
+  frameMetrics: FrameMetrics[]
+  // Null for live results, which merge frames as they arrive instead of detecting a range.
+  activeRange: FrameRange | null
+  mergeFrameIndices: number[]
+  // Frames the overlay classifier kept out of the merge.
+  rejectedFrames: RejectedFrame[]
+  timings: ProcessingTimings
+  diagnostics: ProcessingDiagnostics | null
+  // Options and card layout the result was produced with, so a run can be reproduced.
+  options: ProcessingOptions
+  cardLayout: CardLayoutPercent
+  // False when the configured layout was used because no board was detected.
+  isCardLayoutDetected: boolean
+}
+
+type BatchJobStatus = "queued" | "processing" | "done" | "failed" | "cancelled"
+
+// One uploaded video of a batch run; processed one at a time in queue order.
+type BatchJob = {
+  id: string
+  file: File
+  status: BatchJobStatus
+  progress: { current: number; total: number }
+  result: ProcessingResult | null
+  error: string | null
+}
+
+// Results in the history store keep the image blob but drop data URLs and debug images.
+type StoredProcessingResult = Omit<ProcessingResult, "imageUrl" | "diagnostics"> & {
+  imageUrl?: undefined
+  diagnostics?: undefined
+}
+
+type HistoryEntry = {
+  id: string
+  createdAt: number
+  // Uploaded file name; null for recordings.
+  name: string | null
+  result: StoredProcessingResult
+  sourceVideo: Blob | null
+  // Bytes counted against the history quota.
+  size: number
+}
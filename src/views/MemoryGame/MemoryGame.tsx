@@ -1,14 +1,34 @@
 import { Box, Button, Heading, Icon, Stack, Text, Tooltip } from "@chakra-ui/react"
 import { toaster } from "components/ui/toaster"
-import { type ChangeEvent, useCallback, useRef, useState } from "react"
-import { FiSettings } from "react-icons/fi"
-import { PreviewSidebar, RecordingActions, ResultPanel, SettingsDialog } from "./components"
-import { useRecordingController, useVideoProcessing } from "./hooks"
+import { type ChangeEvent, useCallback, useMemo, useRef, useState } from "react"
+import { FiClock, FiSettings, FiUploadCloud } from "react-icons/fi"
+import {
+  BatchPanel,
+  CalibrationDialog,
+  DebugPanel,
+  FramePickerDialog,
+  HistoryDrawer,
+  PreviewSidebar,
+  RecordingActions,
+  ResultComparison,
+  ResultPanel,
+  SettingsDialog,
+} from "./components"
+import {
+  useBatchProcessing,
+  useRecordingController,
+  useResultHistory,
+  useSettings,
+  useVideoFileDrop,
+  useVideoProcessing,
+} from "./hooks"
+import { DEFAULT_CARD_LAYOUT_PERCENT, restoreHistoryResult, setCardLayoutGridSize, validateVideoFile } from "./utils"
 
 const MemoryGame = () => {
-  const [isAutoStopEnabled, setIsAutoStopEnabled] = useState(true)
-  const [isConnectedPreviewVisible, setIsConnectedPreviewVisible] = useState(true)
   const [isSettingsOpen, setIsSettingsOpen] = useState(false)
+  const [isCalibrationOpen, setIsCalibrationOpen] = useState(false)
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false)
+  const [framePickerCell, setFramePickerCell] = useState<number | null>(null)
 
   const fileInputRef = useRef<HTMLInputElement | null>(null)
 
@@ -20,28 +40,107 @@ const MemoryGame = () => {
     })
   }, [])
 
-  const { clearResult, isProcessing, processVideo, progress, resultImage } = useVideoProcessing({
+  const {
+    deleteLayoutProfile,
+    resetProcessingOptions,
+    saveLayoutProfile,
+    settings,
+    updateProcessingOptions,
+    updateSettings,
+  } = useSettings({
     onError: showError,
   })
 
+  const cardLayout = useMemo(
+    () =>
+      settings.layoutProfiles.find(({ id }) => id === settings.selectedLayoutProfileId)?.layout ??
+      setCardLayoutGridSize(DEFAULT_CARD_LAYOUT_PERCENT, settings.cardGridSize),
+    [settings.cardGridSize, settings.layoutProfiles, settings.selectedLayoutProfileId],
+  )
+
+  const { clearEntries, deleteEntry, entries, saveRun, totalSize } = useResultHistory({
+    onError: showError,
+    settings: settings.history,
+  })
+
+  const {
+    cancelProcessing,
+    clearResult,
+    comparedResult,
+    discardRecording,
+    dismissComparison,
+    isLiveProcessing,
+    isProcessing,
+    processRecording,
+    processVideo,
+    progress,
+    reprocessVideo,
+    restoreComparedResult,
+    result,
+    showResult,
+    sourceVideo,
+    startLiveProcessing,
+    updateResult,
+  } = useVideoProcessing({
+    autoDetectLayout: settings.isLayoutDetectionEnabled,
+    cardLayout,
+    collectDiagnostics: settings.isDebugPanelEnabled,
+    onError: showError,
+    onResult: saveRun,
+    options: settings.processingOptions,
+  })
+
   const handleRecordedBlob = useCallback(
     (blob: Blob) => {
-      void processVideo(blob)
+      void processRecording(blob)
+    },
+    [processRecording],
+  )
+
+  const { cancelBatch, clearBatch, enqueueFiles, isBatchProcessing, jobs } = useBatchProcessing({
+    autoDetectLayout: settings.isLayoutDetectionEnabled,
+    cardLayout,
+    onResult: saveRun,
+    options: settings.processingOptions,
+  })
+
+  // A single video becomes the current result; several (or any added to a running batch) go through the queue.
+  // Rejected files are reported one by one and the rest are still processed.
+  const handleVideoFiles = useCallback(
+    (files: File[]) => {
+      const videoFiles = files.filter((file) => {
+        const rejection = validateVideoFile(file)
+        if (rejection) {
+          showError(rejection)
+        }
+
+        return !rejection
+      })
+      if (videoFiles.length === 0) {
+        return
+      }
+
+      if (videoFiles.length === 1 && !isBatchProcessing) {
+        void processVideo(videoFiles[0])
+        return
+      }
+
+      enqueueFiles(videoFiles)
     },
-    [processVideo],
+    [enqueueFiles, isBatchProcessing, processVideo, showError],
   )
 
   const handleUpload = useCallback(
     (event: ChangeEvent<HTMLInputElement>) => {
-      const file = event.target.files?.[0]
-      if (file) {
-        void processVideo(file)
+      const files = Array.from(event.target.files ?? [])
+      if (files.length > 0) {
+        handleVideoFiles(files)
       }
 
       // Allow selecting the same file again.
       event.target.value = ""
     },
-    [processVideo],
+    [handleVideoFiles],
   )
 
   const {
@@ -57,13 +156,64 @@ const MemoryGame = () => {
     stopRecording,
     toggleShareConnection,
   } = useRecordingController({
-    autoStopEnabled: isAutoStopEnabled,
+    autoStopEnabled: settings.isAutoStopEnabled,
+    autoStopSeconds: settings.autoStopSeconds,
     onError: showError,
     onRecordedBlob: handleRecordedBlob,
+    onRecordingDiscarded: discardRecording,
+    onRecordingStart: settings.isLiveProcessingEnabled ? startLiveProcessing : undefined,
+  })
+
+  const openHistoryEntry = useCallback(
+    async (entry: HistoryEntry) => {
+      try {
+        showResult(await restoreHistoryResult(entry), entry.sourceVideo)
+        setIsHistoryOpen(false)
+      } catch (error) {
+        showError({
+          title: "History Unavailable",
+          description: error instanceof Error ? error.message : "Unknown error",
+        })
+      }
+    },
+    [showError, showResult],
+  )
+
+  // Same availability as the upload button.
+  const { dropTargetProps, isDraggingFiles } = useVideoFileDrop({
+    isEnabled: !isProcessing && !isRecording,
+    onFiles: handleVideoFiles,
   })
 
   return (
-    <Box minH="100vh" bgGradient="linear(to-br, gray.100, white, blue.50)">
+    <Box minH="100vh" bgGradient="linear(to-br, gray.100, white, blue.50)" {...dropTargetProps}>
+      {isDraggingFiles && (
+        <Box
+          position="fixed"
+          inset={3}
+          zIndex="overlay"
+          display="flex"
+          alignItems="center"
+          justifyContent="center"
+          borderWidth="2px"
+          borderStyle="dashed"
+          borderColor="blue.400"
+          borderRadius="3xl"
+          bg="blue.50/80"
+          pointerEvents="none"
+        >
+          <Stack align="center" gap={2}>
+            <Icon as={FiUploadCloud} boxSize={10} color="blue.500" />
+            <Text fontSize="lg" fontWeight="semibold" color="blue.700">
+              Drop videos to process them
+            </Text>
+            <Text fontSize="sm" color="blue.600">
+              Several videos are processed as a batch.
+            </Text>
+          </Stack>
+        </Box>
+      )}
+
       <Box w="full" display="flex" justifyContent="center" px={4} py={4}>
         <Box w="full" maxW={{ base: "full", lg: "calc(100vw - 32px)", "2xl": "2440px" }}>
           <Stack
@@ -99,6 +249,28 @@ const MemoryGame = () => {
                 p={4}
                 shadow="sm"
               >
+                <Tooltip.Root positioning={{ placement: "bottom" }}>
+                  <Tooltip.Trigger asChild>
+                    <Button
+                      aria-label="Open history"
+                      onClick={() => setIsHistoryOpen(true)}
+                      size="sm"
+                      variant="outline"
+                      colorPalette="gray"
+                      minW="8"
+                      px={0}
+                      position="absolute"
+                      top={4}
+                      right={14}
+                    >
+                      <Icon as={FiClock} boxSize={4} />
+                    </Button>
+                  </Tooltip.Trigger>
+                  <Tooltip.Positioner>
+                    <Tooltip.Content>History</Tooltip.Content>
+                  </Tooltip.Positioner>
+                </Tooltip.Root>
+
                 <Tooltip.Root positioning={{ placement: "left" }}>
                   <Tooltip.Trigger asChild>
                     <Button
@@ -122,7 +294,7 @@ const MemoryGame = () => {
                 </Tooltip.Root>
 
                 <Stack gap={4}>
-                  <Stack gap={1} pr={10}>
+                  <Stack gap={1} pr={20}>
                     <Text
                       fontSize="xs"
                       fontWeight="semibold"
@@ -155,7 +327,8 @@ const MemoryGame = () => {
                       <Text fontSize="xs" color="gray.500">
                         {hasActiveShare
                           ? "Game window connected. You can start/stop recording without selecting the window again."
-                          : "Use Connect Game Window in the preview column before recording."}
+                          : "Use Connect Game Window in the preview column before recording."}{" "}
+                        You can also drop or paste videos anywhere on the page.
                       </Text>
                     </Stack>
                   </Box>
@@ -163,17 +336,46 @@ const MemoryGame = () => {
               </Box>
 
               <ResultPanel
-                resultImage={resultImage}
+                result={result}
+                imageExport={settings.imageExport}
                 processingCurrent={progress.current}
                 processingTotal={progress.total}
+                isLiveProcessing={isLiveProcessing}
                 isProcessing={isProcessing}
+                onCancel={cancelProcessing}
                 onClear={clearResult}
+                onError={showError}
+                onPickCellFrame={sourceVideo ? setFramePickerCell : undefined}
+                onReprocess={sourceVideo ? () => void reprocessVideo() : undefined}
               />
+
+              {result && comparedResult && (
+                <ResultComparison
+                  comparedResult={comparedResult}
+                  onDismiss={dismissComparison}
+                  onRestore={restoreComparedResult}
+                  result={result}
+                />
+              )}
+
+              {jobs.length > 0 && (
+                <BatchPanel
+                  canOpenResult={!isProcessing && !isLiveProcessing}
+                  isBatchProcessing={isBatchProcessing}
+                  jobs={jobs}
+                  onCancel={cancelBatch}
+                  onClear={clearBatch}
+                  onError={showError}
+                  onOpenResult={(job) => job.result && showResult(job.result, job.file)}
+                />
+              )}
+
+              {settings.isDebugPanelEnabled && result && <DebugPanel key={result.runId} result={result} />}
             </Stack>
 
             <PreviewSidebar
               hasActiveShare={hasActiveShare}
-              isConnectedPreviewVisible={isConnectedPreviewVisible}
+              isConnectedPreviewVisible={settings.isConnectedPreviewVisible}
               isConnecting={isConnecting}
               isProcessing={isProcessing}
               isRecording={isRecording}
@@ -185,13 +387,62 @@ const MemoryGame = () => {
       </Box>
 
       <SettingsDialog
-        isAutoStopEnabled={isAutoStopEnabled}
-        isConnectedPreviewVisible={isConnectedPreviewVisible}
         isOpen={isSettingsOpen}
-        onAutoStopChange={setIsAutoStopEnabled}
-        onConnectedPreviewChange={setIsConnectedPreviewVisible}
+        onDeleteLayoutProfile={deleteLayoutProfile}
+        onOpenCalibration={() => {
+          setIsSettingsOpen(false)
+          setIsCalibrationOpen(true)
+        }}
         onOpenChange={setIsSettingsOpen}
+        onProcessingOptionsChange={updateProcessingOptions}
+        onProcessingOptionsReset={resetProcessingOptions}
+        onSettingsChange={updateSettings}
+        settings={settings}
+      />
+
+      <HistoryDrawer
+        canOpenEntry={!isProcessing && !isLiveProcessing && !isRecording}
+        entries={entries}
+        isOpen={isHistoryOpen}
+        onClear={clearEntries}
+        onDelete={deleteEntry}
+        onOpen={(entry) => void openHistoryEntry(entry)}
+        onOpenChange={setIsHistoryOpen}
+        onReprocess={(entry) => {
+          if (entry.sourceVideo) {
+            setIsHistoryOpen(false)
+            void processVideo(entry.sourceVideo)
+          }
+        }}
+        quotaMb={settings.history.quotaMb}
+        totalSize={totalSize}
       />
+
+      {/* Mounted only while open so every calibration starts from the selected profile. */}
+      {isCalibrationOpen && (
+        <CalibrationDialog
+          defaultLayout={cardLayout}
+          hasActiveShare={hasActiveShare}
+          layoutProfiles={settings.layoutProfiles}
+          livePreviewVideoRef={hiddenPreviewVideoRef}
+          onClose={() => setIsCalibrationOpen(false)}
+          onError={showError}
+          onSaveProfile={saveLayoutProfile}
+          recordedVideoUrl={recordedVideoUrl}
+          selectedLayoutProfileId={settings.selectedLayoutProfileId}
+        />
+      )}
+
+      {framePickerCell !== null && result && sourceVideo && (
+        <FramePickerDialog
+          cellIndex={framePickerCell}
+          onApply={updateResult}
+          onClose={() => setFramePickerCell(null)}
+          onError={showError}
+          result={result}
+          sourceVideo={sourceVideo}
+        />
+      )}
     </Box>
   )
 }
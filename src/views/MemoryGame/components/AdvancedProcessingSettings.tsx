@@ -0,0 +1,94 @@
+import { Button, Collapsible, Field, HStack, Icon, NumberInput, SimpleGrid, Stack, Text } from "@chakra-ui/react"
+import { useState } from "react"
+import { FiChevronDown, FiRotateCcw } from "react-icons/fi"
+import { PROCESSING_OPTION_FIELDS } from "../utils"
+
+type ProcessingOptionField = (typeof PROCESSING_OPTION_FIELDS)[number]
+
+type AdvancedProcessingSettingsProps = {
+  onChange: (changes: Partial<ProcessingOptions>) => string | null
+  onReset: () => void
+  options: ProcessingOptions
+}
+
+type ProcessingOptionInputProps = {
+  field: ProcessingOptionField
+  onChange: AdvancedProcessingSettingsProps["onChange"]
+  value: number
+}
+
+// Keeps the typed text locally so intermediate input ("0.", "") is not overwritten by the last valid value.
+const ProcessingOptionInput = ({ field, onChange, value }: ProcessingOptionInputProps) => {
+  const [inputValue, setInputValue] = useState(String(value))
+  const [error, setError] = useState<string | null>(null)
+
+  return (
+    <Field.Root invalid={Boolean(error)}>
+      <Field.Label fontSize="xs" color="gray.600">
+        {field.label}
+      </Field.Label>
+      <NumberInput.Root
+        value={inputValue}
+        min={field.min}
+        max={field.max}
+        step={field.step}
+        size="sm"
+        w="full"
+        onValueChange={(details) => {
+          setInputValue(details.value)
+          setError(onChange({ [field.key]: details.valueAsNumber }))
+        }}
+      >
+        <NumberInput.Control />
+        <NumberInput.Input />
+      </NumberInput.Root>
+      {error && <Field.ErrorText>{error}</Field.ErrorText>}
+    </Field.Root>
+  )
+}
+
+const AdvancedProcessingSettings = ({ onChange, onReset, options }: AdvancedProcessingSettingsProps) => {
+  // Bumped on reset so every input drops its local text and shows the defaults.
+  const [resetCount, setResetCount] = useState(0)
+
+  return (
+    <Collapsible.Root w="full">
+      <Collapsible.Trigger asChild>
+        <Button size="xs" variant="ghost" colorPalette="gray" px={1}>
+          <HStack as="span" gap={1}>
+            <span>Advanced</span>
+            <Icon as={FiChevronDown} boxSize={3.5} />
+          </HStack>
+        </Button>
+      </Collapsible.Trigger>
+      <Collapsible.Content>
+        <Stack gap={3} pt={2}>
+          <Text fontSize="xs" color="gray.500">
+            Tuning for recordings with a different resolution or UI scale. Applies to the next processing run.
+          </Text>
+          <SimpleGrid key={resetCount} columns={{ base: 1, sm: 2 }} gap={3}>
+            {PROCESSING_OPTION_FIELDS.map((field) => (
+              <ProcessingOptionInput key={field.key} field={field} onChange={onChange} value={options[field.key]} />
+            ))}
+          </SimpleGrid>
+          <Button
+            alignSelf="flex-start"
+            onClick={() => {
+              onReset()
+              setResetCount((count) => count + 1)
+            }}
+            size="xs"
+            variant="outline"
+          >
+            <HStack as="span" gap={1}>
+              <Icon as={FiRotateCcw} boxSize={3.5} />
+              <span>Restore defaults</span>
+            </HStack>
+          </Button>
+        </Stack>
+      </Collapsible.Content>
+    </Collapsible.Root>
+  )
+}
+
+export default AdvancedProcessingSettings
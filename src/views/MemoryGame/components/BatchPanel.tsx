@@ -0,0 +1,156 @@
+import { Box, Button, HStack, Icon, Image, Progress, SimpleGrid, Stack, Text } from "@chakra-ui/react"
+import { useState } from "react"
+import { FiArchive, FiX } from "react-icons/fi"
+import { createBatchArchive, createTimestampedFileName, downloadBlob } from "../utils"
+
+type BatchPanelProps = {
+  canOpenResult: boolean
+  isBatchProcessing: boolean
+  jobs: BatchJob[]
+  onCancel: () => void
+  onClear: () => void
+  onError?: (error: ErrorNotice) => void
+  onOpenResult: (job: BatchJob) => void
+}
+
+const STATUS_LABELS: Record<BatchJobStatus, { label: string; color: string }> = {
+  queued: { label: "Queued", color: "gray.500" },
+  processing: { label: "Processing", color: "blue.600" },
+  done: { label: "Done", color: "green.600" },
+  failed: { label: "Failed", color: "red.600" },
+  cancelled: { label: "Cancelled", color: "gray.500" },
+}
+
+const getProgressValue = ({ current, total }: BatchJob["progress"]): number =>
+  total > 0 ? Math.round((current / total) * 100) : 0
+
+const getCapturedSummary = ({ cells }: ProcessingResult): string =>
+  `${cells.filter(({ status }) => status !== "missing").length}/${cells.length} cards captured`
+
+const BatchPanel = ({
+  canOpenResult,
+  isBatchProcessing,
+  jobs,
+  onCancel,
+  onClear,
+  onError,
+  onOpenResult,
+}: BatchPanelProps) => {
+  const [isArchiving, setIsArchiving] = useState(false)
+  const finishedJobs = jobs.flatMap(({ result, ...job }) => (result ? [{ ...job, result }] : []))
+
+  const downloadArchive = async () => {
+    try {
+      setIsArchiving(true)
+      downloadBlob(await createBatchArchive(finishedJobs), createTimestampedFileName("memory-game-batch", "zip"))
+    } catch (error) {
+      onError?.({
+        title: "ZIP Export Failed",
+        description: error instanceof Error ? error.message : "Unknown error",
+      })
+    } finally {
+      setIsArchiving(false)
+    }
+  }
+
+  return (
+    <Box borderWidth="1px" borderColor="gray.200" bg="whiteAlpha.900" borderRadius="3xl" p={4} shadow="sm">
+      <Stack gap={3}>
+        <HStack justify="space-between" align="flex-start" gap={2} flexWrap="wrap">
+          <Stack gap={0.5}>
+            <Text fontSize="xs" fontWeight="semibold" textTransform="uppercase" letterSpacing="widest" color="gray.500">
+              Batch Processing
+            </Text>
+            <Text fontSize="xs" color="gray.600">
+              {finishedJobs.length} / {jobs.length} videos processed
+            </Text>
+          </Stack>
+          <HStack gap={2}>
+            <Button
+              onClick={() => void downloadArchive()}
+              disabled={finishedJobs.length === 0}
+              loading={isArchiving}
+              size="sm"
+              variant="outline"
+              colorPalette="green"
+              rounded="full"
+            >
+              <HStack as="span" gap={1}>
+                <Icon as={FiArchive} boxSize={4} />
+                <span>Download ZIP</span>
+              </HStack>
+            </Button>
+            <Button onClick={isBatchProcessing ? onCancel : onClear} size="sm" variant="outline" rounded="full">
+              <HStack as="span" gap={1}>
+                <Icon as={FiX} boxSize={4} />
+                <span>{isBatchProcessing ? "Cancel" : "Clear"}</span>
+              </HStack>
+            </Button>
+          </HStack>
+        </HStack>
+
+        <Stack gap={1.5} as="ol">
+          {jobs.map((job) => (
+            <Stack
+              as="li"
+              key={job.id}
+              gap={1.5}
+              borderWidth="1px"
+              borderColor="gray.200"
+              borderRadius="xl"
+              bg="gray.50"
+              px={3}
+              py={2}
+            >
+              <HStack justify="space-between" gap={2}>
+                <Text fontSize="sm" color="gray.700" truncate title={job.file.name}>
+                  {job.file.name}
+                </Text>
+                <Text fontSize="xs" fontWeight="semibold" color={STATUS_LABELS[job.status].color} flexShrink={0}>
+                  {job.status === "processing"
+                    ? `${STATUS_LABELS.processing.label} ${getProgressValue(job.progress)}%`
+                    : STATUS_LABELS[job.status].label}
+                </Text>
+              </HStack>
+              {job.status === "processing" && (
+                <Progress.Root value={getProgressValue(job.progress)} colorPalette="blue" size="xs">
+                  <Progress.Track>
+                    <Progress.Range />
+                  </Progress.Track>
+                </Progress.Root>
+              )}
+              {job.error && (
+                <Text fontSize="xs" color="red.600">
+                  {job.error}
+                </Text>
+              )}
+            </Stack>
+          ))}
+        </Stack>
+
+        {finishedJobs.length > 0 && (
+          <SimpleGrid columns={{ base: 1, sm: 2, xl: 3 }} gap={3}>
+            {finishedJobs.map((job) => (
+              <Stack key={job.id} gap={1.5} borderWidth="1px" borderColor="gray.200" borderRadius="xl" p={2}>
+                <Image src={job.result.imageUrl} alt={`Result for ${job.file.name}`} borderRadius="md" />
+                <Text fontSize="xs" fontWeight="medium" color="gray.700" truncate title={job.file.name}>
+                  {job.file.name}
+                </Text>
+                <HStack justify="space-between" gap={2}>
+                  <Text fontSize="xs" color="gray.500">
+                    {getCapturedSummary(job.result)}
+                  </Text>
+                  <Button onClick={() => onOpenResult(job)} disabled={!canOpenResult} size="xs" variant="outline">
+                    Open
+                  </Button>
+                </HStack>
+              </Stack>
+            ))}
+          </SimpleGrid>
+        )}
+      </Stack>
+    </Box>
+  )
+}
+
+export default BatchPanel
@@ -0,0 +1,248 @@
+import { Box, Button, Dialog, HStack, Icon, Input, Slider, Stack, Text } from "@chakra-ui/react"
+import { type ChangeEvent, type RefObject, useCallback, useRef, useState } from "react"
+import { FiFilm, FiMonitor, FiUpload } from "react-icons/fi"
+import {
+  type CalibrationFrame,
+  captureVideoElementFrame,
+  captureVideoFileFrame,
+  DEFAULT_CARD_LAYOUT_PERCENT,
+  setCardLayoutGridSize,
+} from "../utils"
+import CardGridSizeInput from "./CardGridSizeInput"
+import CardLayoutEditor from "./CardLayoutEditor"
+
+type CalibrationDialogProps = {
+  // Starting point when no profile is selected.
+  defaultLayout: CardLayoutPercent
+  hasActiveShare: boolean
+  layoutProfiles: CardLayoutProfile[]
+  livePreviewVideoRef: RefObject<HTMLVideoElement | null>
+  onError?: (error: ErrorNotice) => void
+  onClose: () => void
+  onSaveProfile: (name: string, layout: CardLayoutPercent) => void
+  recordedVideoUrl: string | null
+  selectedLayoutProfileId: string | null
+}
+
+const CalibrationDialog = ({
+  defaultLayout,
+  hasActiveShare,
+  layoutProfiles,
+  livePreviewVideoRef,
+  onError,
+  onClose,
+  onSaveProfile,
+  recordedVideoUrl,
+  selectedLayoutProfileId,
+}: CalibrationDialogProps) => {
+  const selectedProfile = layoutProfiles.find(({ id }) => id === selectedLayoutProfileId)
+  const [layout, setLayout] = useState<CardLayoutPercent>(selectedProfile?.layout ?? defaultLayout)
+  const [profileName, setProfileName] = useState(selectedProfile?.name ?? "")
+  const [frame, setFrame] = useState<CalibrationFrame | null>(null)
+  const [isLoadingFrame, setIsLoadingFrame] = useState(false)
+
+  const videoSourceRef = useRef<Blob | null>(null)
+  const fileInputRef = useRef<HTMLInputElement | null>(null)
+
+  const reportError = useCallback(
+    (error: unknown) => {
+      onError?.({
+        title: "Calibration Frame Unavailable",
+        description: error instanceof Error ? error.message : "Unknown error",
+      })
+    },
+    [onError],
+  )
+
+  const loadVideoFrame = useCallback(
+    async (blob: Blob, time?: number) => {
+      try {
+        setIsLoadingFrame(true)
+        videoSourceRef.current = blob
+        setFrame(await captureVideoFileFrame(blob, time))
+      } catch (error) {
+        reportError(error)
+      } finally {
+        setIsLoadingFrame(false)
+      }
+    },
+    [reportError],
+  )
+
+  const loadRecordedFrame = useCallback(async () => {
+    if (!recordedVideoUrl) {
+      return
+    }
+
+    try {
+      const response = await fetch(recordedVideoUrl)
+      await loadVideoFrame(await response.blob())
+    } catch (error) {
+      reportError(error)
+    }
+  }, [loadVideoFrame, recordedVideoUrl, reportError])
+
+  const loadLiveFrame = useCallback(() => {
+    const video = livePreviewVideoRef.current
+    if (!video) {
+      return
+    }
+
+    try {
+      videoSourceRef.current = null
+      setFrame(captureVideoElementFrame(video))
+    } catch (error) {
+      reportError(error)
+    }
+  }, [livePreviewVideoRef, reportError])
+
+  const handleFileChange = useCallback(
+    (event: ChangeEvent<HTMLInputElement>) => {
+      const file = event.target.files?.[0]
+      if (file) {
+        void loadVideoFrame(file)
+      }
+
+      event.target.value = ""
+    },
+    [loadVideoFrame],
+  )
+
+  const trimmedName = profileName.trim()
+
+  return (
+    <Dialog.Root open onOpenChange={(event) => !event.open && onClose()} size="xl">
+      <Dialog.Backdrop />
+      <Dialog.Positioner>
+        <Dialog.Content>
+          <Dialog.Header>
+            <Dialog.Title>Calibrate Card Layout</Dialog.Title>
+          </Dialog.Header>
+          <Dialog.Body>
+            <Stack gap={3}>
+              <Text fontSize="sm" color="gray.600">
+                Load a frame that shows the board, then drag the blue corners onto the outer card edges and the orange
+                handles onto the first card&apos;s right and bottom edges.
+              </Text>
+
+              <HStack gap={2} flexWrap="wrap">
+                <Button onClick={loadLiveFrame} disabled={!hasActiveShare} size="sm" variant="outline">
+                  <HStack as="span" gap={1}>
+                    <Icon as={FiMonitor} boxSize={4} />
+                    <span>Use Live Share</span>
+                  </HStack>
+                </Button>
+                <Button
+                  onClick={() => void loadRecordedFrame()}
+                  disabled={!recordedVideoUrl}
+                  loading={isLoadingFrame}
+                  size="sm"
+                  variant="outline"
+                >
+                  <HStack as="span" gap={1}>
+                    <Icon as={FiFilm} boxSize={4} />
+                    <span>Use Last Recording</span>
+                  </HStack>
+                </Button>
+                <Button onClick={() => fileInputRef.current?.click()} size="sm" variant="outline">
+                  <HStack as="span" gap={1}>
+                    <Icon as={FiUpload} boxSize={4} />
+                    <span>Load Video File</span>
+                  </HStack>
+                </Button>
+                <input ref={fileInputRef} type="file" accept="video/*" hidden onChange={handleFileChange} />
+              </HStack>
+
+              {frame ? (
+                <Stack gap={2}>
+                  <CardLayoutEditor imageUrl={frame.imageUrl} layout={layout} onChange={setLayout} />
+                  {frame.duration !== undefined && frame.duration > 0 && (
+                    <Slider.Root
+                      min={0}
+                      max={frame.duration}
+                      step={0.1}
+                      defaultValue={[frame.time ?? 0]}
+                      onValueChangeEnd={(details) => {
+                        if (videoSourceRef.current) {
+                          void loadVideoFrame(videoSourceRef.current, details.value[0])
+                        }
+                      }}
+                      size="sm"
+                    >
+                      <Slider.Label fontSize="xs" color="gray.600">
+                        Frame time
+                      </Slider.Label>
+                      <Slider.Control>
+                        <Slider.Track>
+                          <Slider.Range />
+                        </Slider.Track>
+                        <Slider.Thumbs />
+                      </Slider.Control>
+                    </Slider.Root>
+                  )}
+                </Stack>
+              ) : (
+                <Box
+                  borderWidth="1px"
+                  borderStyle="dashed"
+                  borderColor="gray.300"
+                  borderRadius="xl"
+                  p={6}
+                  textAlign="center"
+                >
+                  <Text fontSize="sm" color="gray.500">
+                    No frame loaded yet.
+                  </Text>
+                </Box>
+              )}
+
+              <HStack gap={2}>
+                <Text fontSize="sm" color="gray.600" fontWeight="semibold" flexShrink={0}>
+                  Board size
+                </Text>
+                <CardGridSizeInput
+                  value={layout}
+                  onChange={(grid) => setLayout((current) => setCardLayoutGridSize(current, grid))}
+                />
+              </HStack>
+
+              <HStack gap={2}>
+                <Input
+                  value={profileName}
+                  onChange={(event) => setProfileName(event.target.value)}
+                  placeholder="Profile name (e.g. 1440p windowed)"
+                  size="sm"
+                />
+                <Button
+                  onClick={() => setLayout(setCardLayoutGridSize(DEFAULT_CARD_LAYOUT_PERCENT, layout))}
+                  size="sm"
+                  variant="outline"
+                >
+                  Reset Grid
+                </Button>
+              </HStack>
+            </Stack>
+          </Dialog.Body>
+          <Dialog.Footer>
+            <Button size="sm" variant="outline" onClick={onClose}>
+              Cancel
+            </Button>
+            <Button
+              size="sm"
+              colorPalette="blue"
+              disabled={!trimmedName}
+              onClick={() => {
+                onSaveProfile(trimmedName, layout)
+                onClose()
+              }}
+            >
+              Save Profile
+            </Button>
+          </Dialog.Footer>
+        </Dialog.Content>
+      </Dialog.Positioner>
+    </Dialog.Root>
+  )
+}
+
+export default CalibrationDialog
@@ -0,0 +1,73 @@
+import { Field, HStack, NumberInput, Text } from "@chakra-ui/react"
+import { useState } from "react"
+import { CARD_GRID_SIZE_LIMITS, isValidCardGridSize } from "../utils"
+
+type CardGridSizeInputProps = {
+  disabled?: boolean
+  onChange: (grid: CardGridSize) => void
+  value: CardGridSize
+}
+
+// Keeps the typed text locally (like the auto stop input) and only reports complete, valid sizes.
+const CardGridSizeInput = ({ disabled, onChange, value }: CardGridSizeInputProps) => {
+  const [cols, setCols] = useState(String(value.cols))
+  const [rows, setRows] = useState(String(value.rows))
+  const grid = { cols: Number(cols), rows: Number(rows) }
+  const isInvalid = !isValidCardGridSize(grid)
+
+  const handleChange = (nextGrid: CardGridSize) => {
+    if (isValidCardGridSize(nextGrid)) {
+      onChange(nextGrid)
+    }
+  }
+
+  return (
+    <Field.Root invalid={isInvalid} disabled={disabled}>
+      <HStack gap={2}>
+        <NumberInput.Root
+          value={cols}
+          min={CARD_GRID_SIZE_LIMITS.min}
+          max={CARD_GRID_SIZE_LIMITS.max}
+          step={1}
+          size="xs"
+          w={16}
+          onValueChange={(details) => {
+            setCols(details.value)
+            handleChange({ ...grid, cols: details.valueAsNumber })
+          }}
+        >
+          <NumberInput.Control />
+          <NumberInput.Input aria-label="Card columns" />
+        </NumberInput.Root>
+        <Text fontSize="sm" color="gray.600">
+          ×
+        </Text>
+        <NumberInput.Root
+          value={rows}
+          min={CARD_GRID_SIZE_LIMITS.min}
+          max={CARD_GRID_SIZE_LIMITS.max}
+          step={1}
+          size="xs"
+          w={16}
+          onValueChange={(details) => {
+            setRows(details.value)
+            handleChange({ ...grid, rows: details.valueAsNumber })
+          }}
+        >
+          <NumberInput.Control />
+          <NumberInput.Input aria-label="Card rows" />
+        </NumberInput.Root>
+        <Text fontSize="sm" color="gray.600">
+          cards
+        </Text>
+      </HStack>
+      {isInvalid && (
+        <Field.ErrorText>
+          Use {CARD_GRID_SIZE_LIMITS.min}-{CARD_GRID_SIZE_LIMITS.max} columns and rows with an even number of cards.
+        </Field.ErrorText>
+      )}
+    </Field.Root>
+  )
+}
+
+export default CardGridSizeInput
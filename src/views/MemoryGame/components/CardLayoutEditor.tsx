@@ -0,0 +1,146 @@
+import { Box, Image } from "@chakra-ui/react"
+import { type PointerEvent, useRef, useState } from "react"
+import { fitCardLayoutToBounds, getCardLayoutBounds, getCardLayoutCells, setCardLayoutCardSize } from "../utils"
+
+type CardLayoutEditorProps = {
+  imageUrl: string
+  layout: CardLayoutPercent
+  onChange: (layout: CardLayoutPercent) => void
+}
+
+type HandleKind = "top-left" | "top-right" | "bottom-left" | "bottom-right" | "card-width" | "card-height"
+
+type Handle = {
+  kind: HandleKind
+  x: number
+  y: number
+  cursor: string
+  label: string
+}
+
+const toPercent = (value: number): string => `${value * 100}%`
+
+const clamp01 = (value: number): number => Math.max(0, Math.min(value, 1))
+
+const getHandles = (layout: CardLayoutPercent): Handle[] => {
+  const bounds = getCardLayoutBounds(layout)
+
+  return [
+    { kind: "top-left", x: bounds.left, y: bounds.top, cursor: "nwse-resize", label: "Board top-left corner" },
+    { kind: "top-right", x: bounds.right, y: bounds.top, cursor: "nesw-resize", label: "Board top-right corner" },
+    { kind: "bottom-left", x: bounds.left, y: bounds.bottom, cursor: "nesw-resize", label: "Board bottom-left corner" },
+    {
+      kind: "bottom-right",
+      x: bounds.right,
+      y: bounds.bottom,
+      cursor: "nwse-resize",
+      label: "Board bottom-right corner",
+    },
+    // Gap handles sit on the first card's right and bottom edges.
+    {
+      kind: "card-width",
+      x: layout.left + layout.cardWidth,
+      y: layout.top + layout.cardHeight / 2,
+      cursor: "ew-resize",
+      label: "Horizontal card gap",
+    },
+    {
+      kind: "card-height",
+      x: layout.left + layout.cardWidth / 2,
+      y: layout.top + layout.cardHeight,
+      cursor: "ns-resize",
+      label: "Vertical card gap",
+    },
+  ]
+}
+
+const moveHandle = (layout: CardLayoutPercent, kind: HandleKind, x: number, y: number): CardLayoutPercent => {
+  const bounds = getCardLayoutBounds(layout)
+
+  switch (kind) {
+    case "top-left":
+      return fitCardLayoutToBounds(layout, { ...bounds, left: x, top: y })
+    case "top-right":
+      return fitCardLayoutToBounds(layout, { ...bounds, right: x, top: y })
+    case "bottom-left":
+      return fitCardLayoutToBounds(layout, { ...bounds, left: x, bottom: y })
+    case "bottom-right":
+      return fitCardLayoutToBounds(layout, { ...bounds, right: x, bottom: y })
+    case "card-width":
+      return setCardLayoutCardSize(layout, { cardWidth: x - layout.left })
+    case "card-height":
+      return setCardLayoutCardSize(layout, { cardHeight: y - layout.top })
+  }
+}
+
+const CardLayoutEditor = ({ imageUrl, layout, onChange }: CardLayoutEditorProps) => {
+  const containerRef = useRef<HTMLDivElement | null>(null)
+  const [activeHandle, setActiveHandle] = useState<HandleKind | null>(null)
+
+  const handlePointerMove = (event: PointerEvent<HTMLDivElement>) => {
+    const container = containerRef.current
+    if (!activeHandle || !container) {
+      return
+    }
+
+    const rect = container.getBoundingClientRect()
+    const x = clamp01((event.clientX - rect.left) / rect.width)
+    const y = clamp01((event.clientY - rect.top) / rect.height)
+    onChange(moveHandle(layout, activeHandle, x, y))
+  }
+
+  return (
+    <Box
+      ref={containerRef}
+      position="relative"
+      userSelect="none"
+      touchAction="none"
+      onPointerMove={handlePointerMove}
+      onPointerUp={() => setActiveHandle(null)}
+      onPointerCancel={() => setActiveHandle(null)}
+    >
+      <Image src={imageUrl} alt="Calibration frame" w="full" borderRadius="md" draggable={false} />
+
+      {getCardLayoutCells(layout).map((cell, cellIndex) => (
+        <Box
+          key={cellIndex}
+          position="absolute"
+          left={toPercent(cell.left)}
+          top={toPercent(cell.top)}
+          w={toPercent(cell.right - cell.left)}
+          h={toPercent(cell.bottom - cell.top)}
+          borderWidth="2px"
+          borderColor={cellIndex === 0 ? "orange.400" : "cyan.400"}
+          bg="cyan.400/10"
+          pointerEvents="none"
+        />
+      ))}
+
+      {getHandles(layout).map((handle) => (
+        <Box
+          key={handle.kind}
+          as="span"
+          aria-label={handle.label}
+          position="absolute"
+          left={toPercent(handle.x)}
+          top={toPercent(handle.y)}
+          boxSize={3.5}
+          transform="translate(-50%, -50%)"
+          borderRadius="full"
+          borderWidth="2px"
+          borderColor="white"
+          bg={handle.kind.startsWith("card-") ? "orange.500" : "cyan.600"}
+          shadow="md"
+          cursor={handle.cursor}
+          onPointerDown={(event) => {
+            event.preventDefault()
+            containerRef.current?.setPointerCapture(event.pointerId)
+            setActiveHandle(handle.kind)
+          }}
+        />
+      ))}
+    </Box>
+  )
+}
+
+export default CardLayoutEditor
@@ -0,0 +1,155 @@
+import { Box, Text } from "@chakra-ui/react"
+import { useMemo } from "react"
+import { getPairColor } from "../utils"
+
+type CardPairOverlayProps = {
+  markIndexByCell: Map<number, number>
+  onSelectCell: (cellIndex: number) => void
+  pendingCell: number | null
+  result: ProcessingResult
+}
+
+// Below this confidence the pair label is shown with a dashed outline as a hint to double-check.
+const LOW_CONFIDENCE = 0.35
+const MISSING_CELL_COLOR = "#f97316"
+
+type CellBadge = {
+  label: string
+  title: string
+  bg: string
+}
+
+const CELL_BADGES: Record<"low-confidence" | "missing" | "manual", CellBadge> = {
+  "low-confidence": { label: "?", title: "Captured in few frames; double-check this card", bg: "yellow.500" },
+  missing: { label: "!", title: "Card not captured in the recording", bg: "orange.500" },
+  manual: { label: "✎", title: "Frame picked by hand", bg: "purple.500" },
+}
+
+const getCellBadge = (cell: CellResult | undefined): CellBadge | null => {
+  if (!cell) {
+    return null
+  }
+
+  if (cell.isManualOverride) {
+    return CELL_BADGES.manual
+  }
+
+  return cell.status === "revealed" ? null : CELL_BADGES[cell.status]
+}
+
+const toPercent = (value: number, total: number): string => `${(value / total) * 100}%`
+
+const PairBadge = ({ color, label, title }: { color: string; label: string; title: string }) => (
+  <Text
+    position="absolute"
+    top={1}
+    left={1}
+    px={1.5}
+    minW={5}
+    textAlign="center"
+    fontSize="xs"
+    fontWeight="bold"
+    color="white"
+    borderRadius="full"
+    style={{ backgroundColor: color }}
+    title={title}
+  >
+    {label}
+  </Text>
+)
+
+const StatusBadge = ({ badge }: { badge: CellBadge }) => (
+  <Text
+    position="absolute"
+    top={1}
+    right={1}
+    minW={5}
+    textAlign="center"
+    fontSize="xs"
+    fontWeight="bold"
+    color="white"
+    bg={badge.bg}
+    borderRadius="full"
+    title={badge.title}
+  >
+    {badge.label}
+  </Text>
+)
+
+const CardPairOverlay = ({ markIndexByCell, onSelectCell, pendingCell, result }: CardPairOverlayProps) => {
+  const { cellRects, cells, frameHeight, frameWidth, pairs } = result
+
+  const pairByCell = useMemo(() => {
+    const lookup = new Map<number, CardPair>()
+    pairs.forEach((pair) => {
+      lookup.set(pair.cells[0], pair)
+      lookup.set(pair.cells[1], pair)
+    })
+    return lookup
+  }, [pairs])
+
+  return (
+    <Box position="absolute" inset={0}>
+      {cellRects.map((rect, cellIndex) => {
+        const pair = pairByCell.get(cellIndex)
+        const markIndex = markIndexByCell.get(cellIndex)
+        const isMarked = markIndex !== undefined
+        const isPending = pendingCell === cellIndex
+        const pairColor = pair ? getPairColor(pair.pairIndex) : undefined
+        const isMissing = cells[cellIndex]?.status === "missing"
+        const badge = getCellBadge(cells[cellIndex])
+
+        return (
+          <Box
+            key={cellIndex}
+            as="button"
+            aria-label={`Card ${cellIndex + 1}`}
+            aria-pressed={isPending || isMarked}
+            onClick={() => onSelectCell(cellIndex)}
+            position="absolute"
+            left={toPercent(rect.left, frameWidth)}
+            top={toPercent(rect.top, frameHeight)}
+            w={toPercent(rect.right - rect.left, frameWidth)}
+            h={toPercent(rect.bottom - rect.top, frameHeight)}
+            borderWidth={isPending ? "3px" : "2px"}
+            borderStyle={!isPending && (isMissing || (pair && pair.confidence < LOW_CONFIDENCE)) ? "dashed" : "solid"}
+            borderRadius="md"
+            cursor={isMarked ? "default" : "pointer"}
+            bg={isMarked ? "blackAlpha.600" : isPending ? "whiteAlpha.300" : "transparent"}
+            transition="background 0.15s"
+            _hover={isMarked ? undefined : { bg: "whiteAlpha.200" }}
+            style={{
+              borderColor: isPending
+                ? "white"
+                : isMarked
+                  ? "transparent"
+                  : isMissing
+                    ? MISSING_CELL_COLOR
+                    : (pairColor ?? "transparent"),
+            }}
+          >
+            {!isMarked && badge && <StatusBadge badge={badge} />}
+            {isMarked ? (
+              <PairBadge
+                color={getPairColor(markIndex)}
+                label={`✓${markIndex + 1}`}
+                title={`Matched ${markIndex + 1}`}
+              />
+            ) : (
+              pair &&
+              pairColor && (
+                <PairBadge
+                  color={pairColor}
+                  label={String(pair.pairIndex + 1)}
+                  title={`Pair ${pair.pairIndex + 1} (${Math.round(pair.confidence * 100)}% confidence)`}
+                />
+              )
+            )}
+          </Box>
+        )
+      })}
+    </Box>
+  )
+}
+
+export default CardPairOverlay
@@ -0,0 +1,319 @@
+import { Box, HStack, Image, SimpleGrid, Stack, Text } from "@chakra-ui/react"
+import { useState } from "react"
+import { getFrameTime } from "../utils"
+
+type DebugPanelProps = {
+  result: ProcessingResult
+}
+
+const CHART_HEIGHT = 100
+const SERIES_COLORS = { baselineRatio: "#2563eb", motionRatio: "#db2777" }
+const REJECTED_COLOR = "#dc2626"
+const STATUS_LABELS: Record<CellStatus, string> = {
+  revealed: "Revealed",
+  "low-confidence": "Low confidence",
+  missing: "Missing",
+}
+const OVERLAY_LABELS: Record<OverlayKind, string> = {
+  dimmed: "screen dimmed",
+  dialog: "dialog over the board",
+  banner: "banner outside the board",
+}
+
+const toPercent = (value: number, total: number): string => `${(value / total) * 100}%`
+
+const LegendItem = ({ color, label, isDashed }: { color: string; label: string; isDashed?: boolean }) => (
+  <HStack gap={1.5}>
+    <Box w={4} borderTopWidth="2px" borderTopStyle={isDashed ? "dashed" : "solid"} style={{ borderColor: color }} />
+    <Text fontSize="xs" color="gray.600">
+      {label}
+    </Text>
+  </HStack>
+)
+
+// Per-frame ratios with the thresholds they are compared against, the active range and merged frames.
+const MetricsChart = ({ result }: DebugPanelProps) => {
+  const { activeRange, frameMetrics, mergeFrameIndices, options, rejectedFrames } = result
+  const frameCount = Math.max(1, frameMetrics.length)
+  const peakValue = frameMetrics.reduce(
+    (max, { baselineRatio, motionRatio }) => Math.max(max, baselineRatio, motionRatio),
+    options.maxBaselineRatio,
+  )
+  const maxValue = peakValue * 1.05
+  const toY = (value: number): number => CHART_HEIGHT - (value / maxValue) * CHART_HEIGHT
+  const toPoints = (key: keyof FrameMetrics): string =>
+    frameMetrics.map((metrics, frameIndex) => `${frameIndex + 0.5},${toY(metrics[key])}`).join(" ")
+  const thresholds = [
+    { value: options.minBaselineRatio, color: SERIES_COLORS.baselineRatio },
+    { value: options.maxBaselineRatio, color: SERIES_COLORS.baselineRatio },
+    { value: options.minMotionRatio, color: SERIES_COLORS.motionRatio },
+  ]
+
+  return (
+    <Stack gap={1.5}>
+      <Box borderWidth="1px" borderColor="gray.200" borderRadius="md" overflow="hidden" bg="white">
+        <svg
+          viewBox={`0 0 ${frameCount} ${CHART_HEIGHT}`}
+          preserveAspectRatio="none"
+          width="100%"
+          height="160"
+          role="img"
+          aria-label="Frame metrics chart"
+        >
+          {activeRange && (
+            <rect
+              x={activeRange.start}
+              y={0}
+              width={activeRange.end - activeRange.start + 1}
+              height={CHART_HEIGHT}
+              fill="#16a34a"
+              fillOpacity={0.08}
+            />
+          )}
+          {mergeFrameIndices.map((frameIndex) => (
+            <rect
+              key={frameIndex}
+              x={frameIndex}
+              y={CHART_HEIGHT - 4}
+              width={1}
+              height={4}
+              fill="#16a34a"
+              fillOpacity={0.7}
+            />
+          ))}
+          {rejectedFrames.map(({ frameIndex, reason }) => (
+            <rect key={frameIndex} x={frameIndex} y={0} width={1} height={4} fill={REJECTED_COLOR} fillOpacity={0.7}>
+              <title>{`Frame ${frameIndex}: ${OVERLAY_LABELS[reason]}`}</title>
+            </rect>
+          ))}
+          {thresholds.map(({ value, color }, index) => (
+            <line
+              key={index}
+              x1={0}
+              x2={frameCount}
+              y1={toY(value)}
+              y2={toY(value)}
+              stroke={color}
+              strokeOpacity={0.5}
+              strokeDasharray="4 3"
+              vectorEffect="non-scaling-stroke"
+            />
+          ))}
+          {(["baselineRatio", "motionRatio"] as const).map((key) => (
+            <polyline
+              key={key}
+              points={toPoints(key)}
+              fill="none"
+              stroke={SERIES_COLORS[key]}
+              strokeWidth={1.5}
+              vectorEffect="non-scaling-stroke"
+            />
+          ))}
+        </svg>
+      </Box>
+      <HStack justify="space-between" gap={3} flexWrap="wrap">
+        <HStack gap={3} flexWrap="wrap">
+          <LegendItem color={SERIES_COLORS.baselineRatio} label="Baseline ratio" />
+          <LegendItem color={SERIES_COLORS.motionRatio} label="Motion ratio" />
+          <LegendItem color="#9ca3af" label="Thresholds" isDashed />
+          <LegendItem color="#16a34a" label="Active range / merged frames" />
+          <LegendItem color={REJECTED_COLOR} label="Rejected frames" />
+        </HStack>
+        <Text fontSize="xs" color="gray.500">
+          {frameMetrics.length} frames at {options.fps} fps · peak {peakValue.toFixed(3)}
+        </Text>
+      </HStack>
+    </Stack>
+  )
+}
+
+type CellInspectorProps = {
+  cellIndex: number
+  diagnostics: ProcessingDiagnostics
+  result: ProcessingResult
+}
+
+const formatFrameRange = (result: ProcessingResult, { start, end }: FrameRange): string =>
+  `${getFrameTime(result, start).toFixed(1)}–${getFrameTime(result, end).toFixed(1)}s`
+
+// e.g. "Revealed 2×: 3.1–4.0s (face-up 3.4–3.8s), 9.2–9.5s (never still)".
+const getRevealSummary = (result: ProcessingResult, reveals: RevealSpan[]): string =>
+  `Revealed ${reveals.length}×: ${reveals
+    .map(
+      (reveal) =>
+        `${formatFrameRange(result, reveal)} (${reveal.plateau ? `face-up ${formatFrameRange(result, reveal.plateau)}` : "never still"})`,
+    )
+    .join(", ")}`
+
+const CellInspector = ({ cellIndex, diagnostics, result }: CellInspectorProps) => {
+  const cell = result.cells[cellIndex]
+
+  return (
+    <Stack gap={2}>
+      <Text fontSize="sm" fontWeight="semibold" color="gray.700">
+        Card {cellIndex + 1} · {STATUS_LABELS[cell.status]}
+        {cell.fusedFrameCount > 1 && ` · fused from ${cell.fusedFrameCount} frames`}
+      </Text>
+      {cell.reveals.length > 0 && (
+        <Text fontSize="xs" color="gray.600">
+          {getRevealSummary(result, cell.reveals)}
+        </Text>
+      )}
+      {cell.candidates.length === 0 ? (
+        <Text fontSize="sm" color="gray.500">
+          No frame showed this card revealed.
+        </Text>
+      ) : (
+        <SimpleGrid columns={{ base: 2, md: 3 }} gap={2}>
+          {cell.candidates.map((candidate, candidateIndex) => (
+            <Stack
+              key={candidate.frameIndex}
+              gap={1}
+              borderWidth="1px"
+              borderColor={candidateIndex === 0 ? "green.300" : "gray.200"}
+              borderRadius="md"
+              p={1.5}
+            >
+              {diagnostics.candidateImageUrls[cellIndex]?.[candidateIndex] && (
+                <Image
+                  src={diagnostics.candidateImageUrls[cellIndex][candidateIndex]}
+                  alt={`Card ${cellIndex + 1} at frame ${candidate.frameIndex}`}
+                  borderRadius="sm"
+                />
+              )}
+              <Text fontSize="xs" color="gray.600">
+                Frame {candidate.frameIndex} ({getFrameTime(result, candidate.frameIndex).toFixed(1)}s)
+                {candidateIndex === 0 && " · used"}
+              </Text>
+              <Text fontSize="xs" color="gray.500">
+                Score {candidate.score.toFixed(1)}
+              </Text>
+            </Stack>
+          ))}
+        </SimpleGrid>
+      )}
+    </Stack>
+  )
+}
+
+// Counts per reason, e.g. "Rejected 5 frames: 3 screen dimmed, 2 dialog over the board".
+const getRejectedSummary = (rejectedFrames: RejectedFrame[]): string => {
+  const counts = new Map<OverlayKind, number>()
+  rejectedFrames.forEach(({ reason }) => counts.set(reason, (counts.get(reason) ?? 0) + 1))
+  const reasons = [...counts].map(([reason, count]) => `${count} ${OVERLAY_LABELS[reason]}`)
+
+  return `Rejected ${rejectedFrames.length} frame${rejectedFrames.length === 1 ? "" : "s"}: ${reasons.join(", ")}`
+}
+
+const getFusionSummary = ({ cells, options }: ProcessingResult): string | null => {
+  const capturedCells = cells.filter(({ status }) => status !== "missing")
+  if (capturedCells.length === 0) {
+    return null
+  }
+
+  const averageCount =
+    capturedCells.reduce((sum, { fusedFrameCount }) => sum + fusedFrameCount, 0) / capturedCells.length
+  return `Cards fused from ${averageCount.toFixed(1)} frames on average (up to ${options.fusedFrameCount})`
+}
+
+const getBaselineSummary = ({ time, confidence, frameTimes, isScanLayoutDetected }: BaselineSelection): string =>
+  [
+    `Baseline at ${time.toFixed(1)}s`,
+    frameTimes.length > 1 ? `median of ${frameTimes.length} frames` : null,
+    `confidence ${Math.round(confidence * 100)}%`,
+    isScanLayoutDetected ? null : "gameplay scanned with the configured layout",
+  ]
+    .filter(Boolean)
+    .join(" · ")
+
+const DebugPanel = ({ result }: DebugPanelProps) => {
+  const [selectedCell, setSelectedCell] = useState<number | null>(null)
+  const { cellRects, diagnostics, frameHeight, frameWidth } = result
+  const fusionSummary = getFusionSummary(result)
+
+  return (
+    <Box borderWidth="1px" borderColor="gray.200" bg="whiteAlpha.900" borderRadius="3xl" p={4} shadow="sm">
+      <Stack gap={3}>
+        <Text fontSize="xs" fontWeight="semibold" textTransform="uppercase" letterSpacing="widest" color="gray.500">
+          Processing Diagnostics
+        </Text>
+
+        <MetricsChart result={result} />
+
+        {result.baseline && (
+          <Text fontSize="xs" color="gray.600">
+            {getBaselineSummary(result.baseline)}
+          </Text>
+        )}
+
+        {fusionSummary && (
+          <Text fontSize="xs" color="gray.600">
+            {fusionSummary}
+          </Text>
+        )}
+
+        {result.rejectedFrames.length > 0 && (
+          <Text fontSize="xs" color="red.700">
+            {getRejectedSummary(result.rejectedFrames)}
+          </Text>
+        )}
+
+        {diagnostics ? (
+          <>
+            <Text fontSize="xs" color="gray.500">
+              Baseline frame: orange is copied into the result, cyan is scored. Click a card to see its candidates.
+            </Text>
+            <Box position="relative">
+              <Image src={diagnostics.baselineImageUrl} alt="Baseline frame" w="full" borderRadius="md" />
+              {cellRects.map((rect, cellIndex) => {
+                const evalRect = result.evalRects[cellIndex]
+
+                return (
+                  <Box
+                    key={cellIndex}
+                    as="button"
+                    aria-label={`Inspect card ${cellIndex + 1}`}
+                    aria-pressed={selectedCell === cellIndex}
+                    onClick={() => setSelectedCell(cellIndex)}
+                    position="absolute"
+                    left={toPercent(rect.left, frameWidth)}
+                    top={toPercent(rect.top, frameHeight)}
+                    w={toPercent(rect.right - rect.left, frameWidth)}
+                    h={toPercent(rect.bottom - rect.top, frameHeight)}
+                    borderWidth={selectedCell === cellIndex ? "3px" : "1px"}
+                    borderColor="orange.400"
+                    bg={selectedCell === cellIndex ? "orange.400/20" : "transparent"}
+                    cursor="pointer"
+                  >
+                    {evalRect && (
+                      <Box
+                        position="absolute"
+                        left={toPercent(evalRect.left - rect.left, rect.right - rect.left)}
+                        top={toPercent(evalRect.top - rect.top, rect.bottom - rect.top)}
+                        w={toPercent(evalRect.right - evalRect.left, rect.right - rect.left)}
+                        h={toPercent(evalRect.bottom - evalRect.top, rect.bottom - rect.top)}
+                        borderWidth="1px"
+                        borderStyle="dashed"
+                        borderColor="cyan.400"
+                        pointerEvents="none"
+                      />
+                    )}
+                  </Box>
+                )
+              })}
+            </Box>
+            {selectedCell !== null && (
+              <CellInspector cellIndex={selectedCell} diagnostics={diagnostics} result={result} />
+            )}
+          </>
+        ) : (
+          <Text fontSize="sm" color="gray.500">
+            Cell details are collected for videos processed while this panel is enabled.
+          </Text>
+        )}
+      </Stack>
+    </Box>
+  )
+}
+
+export default DebugPanel
@@ -0,0 +1,205 @@
+import { Box, Button, Dialog, HStack, Image, Slider, Spinner, Stack, Text } from "@chakra-ui/react"
+import { useCallback, useEffect, useRef, useState } from "react"
+import {
+  createVideoFrameProvider,
+  getFrameTime,
+  overrideResultCell,
+  renderFrameCellUrl,
+  type VideoFrameProvider,
+} from "../utils"
+
+type FramePickerDialogProps = {
+  cellIndex: number
+  onApply: (result: ProcessingResult) => void
+  onClose: () => void
+  onError?: (error: ErrorNotice) => void
+  result: ProcessingResult
+  sourceVideo: Blob
+}
+
+const FramePickerDialog = ({ cellIndex, onApply, onClose, onError, result, sourceVideo }: FramePickerDialogProps) => {
+  const cell = result.cells[cellIndex]
+  const lastFrameIndex = Math.max(0, result.frameMetrics.length - 1)
+  const [frameIndex, setFrameIndex] = useState(cell?.frameIndex ?? result.activeRange?.start ?? 0)
+  // Only decoded when the slider is released, so scrubbing does not queue a decode per step.
+  const [previewFrameIndex, setPreviewFrameIndex] = useState(frameIndex)
+  const [preview, setPreview] = useState<{ frameIndex: number; url: string } | null>(null)
+  const [isApplying, setIsApplying] = useState(false)
+
+  const providerRef = useRef<Promise<VideoFrameProvider> | null>(null)
+  const readQueueRef = useRef<Promise<unknown>>(Promise.resolve())
+
+  const reportError = useCallback(
+    (error: unknown) => {
+      onError?.({
+        title: "Frame Unavailable",
+        description: error instanceof Error ? error.message : "Unknown error",
+      })
+    },
+    [onError],
+  )
+
+  // The decoder is opened once per dialog and shared by the preview and the final override. It decodes
+  // one frame at a time, so reads are chained and a preview never overlaps another read or the override.
+  const readFrame = useCallback(
+    (index: number) => {
+      const read = readQueueRef.current.then(async () => {
+        providerRef.current ??= createVideoFrameProvider(sourceVideo)
+        const provider = await providerRef.current
+        return provider.readFrame(getFrameTime(result, index))
+      })
+      readQueueRef.current = read.catch(() => {})
+      return read
+    },
+    [result, sourceVideo],
+  )
+
+  useEffect(() => {
+    return () => {
+      const pendingProvider = providerRef.current
+      providerRef.current = null
+      pendingProvider?.then((provider) => provider.close()).catch(() => {})
+    }
+  }, [])
+
+  useEffect(() => {
+    let isCancelled = false
+
+    readFrame(previewFrameIndex)
+      .then((frame) => {
+        try {
+          if (!isCancelled) {
+            setPreview({ frameIndex: previewFrameIndex, url: renderFrameCellUrl(frame, result, cellIndex) })
+          }
+        } finally {
+          frame.close()
+        }
+      })
+      .catch((error) => {
+        if (!isCancelled) {
+          reportError(error)
+        }
+      })
+
+    return () => {
+      isCancelled = true
+    }
+  }, [cellIndex, previewFrameIndex, readFrame, reportError, result])
+
+  const selectFrame = (index: number) => {
+    setFrameIndex(index)
+    setPreviewFrameIndex(index)
+  }
+
+  const applyFrame = async () => {
+    try {
+      setIsApplying(true)
+      const frame = await readFrame(frameIndex)
+      try {
+        onApply(await overrideResultCell({ result, cellIndex, frameIndex, frame }))
+      } finally {
+        frame.close()
+      }
+      onClose()
+    } catch (error) {
+      reportError(error)
+    } finally {
+      setIsApplying(false)
+    }
+  }
+
+  const isPreviewCurrent = preview?.frameIndex === frameIndex
+
+  return (
+    <Dialog.Root open onOpenChange={(event) => !event.open && onClose()}>
+      <Dialog.Backdrop />
+      <Dialog.Positioner>
+        <Dialog.Content>
+          <Dialog.Header>
+            <Dialog.Title>Pick a Frame for Card {cellIndex + 1}</Dialog.Title>
+          </Dialog.Header>
+          <Dialog.Body>
+            <Stack gap={3}>
+              <Box
+                position="relative"
+                display="flex"
+                alignItems="center"
+                justifyContent="center"
+                minH="40"
+                borderWidth="1px"
+                borderColor="gray.200"
+                borderRadius="md"
+                bg="gray.50"
+              >
+                {preview && (
+                  <Image
+                    src={preview.url}
+                    alt={`Card ${cellIndex + 1} at frame ${preview.frameIndex}`}
+                    maxH="64"
+                    opacity={isPreviewCurrent ? 1 : 0.5}
+                  />
+                )}
+                {!isPreviewCurrent && <Spinner position="absolute" size="sm" color="blue.500" />}
+              </Box>
+
+              <Slider.Root
+                min={0}
+                max={lastFrameIndex}
+                step={1}
+                value={[frameIndex]}
+                onValueChange={(details) => setFrameIndex(details.value[0])}
+                onValueChangeEnd={(details) => setPreviewFrameIndex(details.value[0])}
+                size="sm"
+              >
+                <HStack justify="space-between">
+                  <Slider.Label fontSize="xs" color="gray.600">
+                    Frame {frameIndex} ({getFrameTime(result, frameIndex).toFixed(1)}s)
+                  </Slider.Label>
+                  {cell?.frameIndex === frameIndex && (
+                    <Text fontSize="xs" color="gray.500">
+                      Current pick
+                    </Text>
+                  )}
+                </HStack>
+                <Slider.Control>
+                  <Slider.Track>
+                    <Slider.Range />
+                  </Slider.Track>
+                  <Slider.Thumbs />
+                </Slider.Control>
+              </Slider.Root>
+
+              {cell && cell.candidates.length > 0 && (
+                <HStack gap={2} flexWrap="wrap">
+                  <Text fontSize="xs" color="gray.600">
+                    Best scored:
+                  </Text>
+                  {cell.candidates.map((candidate) => (
+                    <Button
+                      key={candidate.frameIndex}
+                      onClick={() => selectFrame(candidate.frameIndex)}
+                      size="xs"
+                      variant={candidate.frameIndex === frameIndex ? "solid" : "outline"}
+                    >
+                      Frame {candidate.frameIndex}
+                    </Button>
+                  ))}
+                </HStack>
+              )}
+            </Stack>
+          </Dialog.Body>
+          <Dialog.Footer>
+            <Button size="sm" variant="outline" onClick={onClose}>
+              Cancel
+            </Button>
+            <Button size="sm" colorPalette="blue" loading={isApplying} onClick={() => void applyFrame()}>
+              Use This Frame
+            </Button>
+          </Dialog.Footer>
+        </Dialog.Content>
+      </Dialog.Positioner>
+    </Dialog.Root>
+  )
+}
+
+export default FramePickerDialog
@@ -0,0 +1,161 @@
+import { Box, Button, CloseButton, Drawer, HStack, Icon, Stack, Text } from "@chakra-ui/react"
+import { useEffect, useRef } from "react"
+import { FiExternalLink, FiRefreshCw, FiTrash2 } from "react-icons/fi"
+
+type HistoryDrawerProps = {
+  canOpenEntry: boolean
+  entries: HistoryEntry[]
+  isOpen: boolean
+  onClear: () => void
+  onDelete: (id: string) => void
+  onOpen: (entry: HistoryEntry) => void
+  onOpenChange: (isOpen: boolean) => void
+  onReprocess: (entry: HistoryEntry) => void
+  quotaMb: number
+  totalSize: number
+}
+
+const formatMegabytes = (bytes: number): string => `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+
+const getEntrySummary = ({ result }: HistoryEntry): string => {
+  const capturedCount = result.cells.filter(({ status }) => status !== "missing").length
+  const lowConfidenceCount = result.cells.filter(({ status }) => status === "low-confidence").length
+
+  return [
+    `${capturedCount}/${result.cells.length} cards`,
+    lowConfidenceCount > 0 ? `${lowConfidenceCount} low confidence` : null,
+    // Entries saved before the video duration was kept have none.
+    Number.isFinite(result.videoDuration) ? `${result.videoDuration.toFixed(1)}s video` : null,
+  ]
+    .filter(Boolean)
+    .join(" · ")
+}
+
+// Object URLs are tied to the element's lifetime, so the list does not keep data URLs of every image around.
+const HistoryThumbnail = ({ image, alt }: { image: Blob; alt: string }) => {
+  const imageRef = useRef<HTMLImageElement | null>(null)
+
+  useEffect(() => {
+    const url = URL.createObjectURL(image)
+    if (imageRef.current) {
+      imageRef.current.src = url
+    }
+
+    return () => URL.revokeObjectURL(url)
+  }, [image])
+
+  return (
+    <Box w={24} flexShrink={0} borderRadius="md" overflow="hidden" bg="gray.100">
+      <img ref={imageRef} alt={alt} style={{ display: "block", width: "100%" }} />
+    </Box>
+  )
+}
+
+const HistoryDrawer = ({
+  canOpenEntry,
+  entries,
+  isOpen,
+  onClear,
+  onDelete,
+  onOpen,
+  onOpenChange,
+  onReprocess,
+  quotaMb,
+  totalSize,
+}: HistoryDrawerProps) => {
+  return (
+    <Drawer.Root open={isOpen} onOpenChange={(event) => onOpenChange(event.open)} size="md">
+      <Drawer.Backdrop />
+      <Drawer.Positioner>
+        <Drawer.Content>
+          <Drawer.Header>
+            <Drawer.Title>History</Drawer.Title>
+          </Drawer.Header>
+          <Drawer.Body>
+            {entries.length === 0 ? (
+              <Text fontSize="sm" color="gray.500">
+                Processed videos show up here.
+              </Text>
+            ) : (
+              <Stack gap={2} as="ol">
+                {entries.map((entry) => {
+                  const name = entry.name ?? "Recording"
+
+                  return (
+                    <HStack
+                      as="li"
+                      key={entry.id}
+                      gap={3}
+                      align="flex-start"
+                      borderWidth="1px"
+                      borderColor="gray.200"
+                      borderRadius="xl"
+                      p={2}
+                    >
+                      <HistoryThumbnail image={entry.result.image} alt={`Result for ${name}`} />
+                      <Stack gap={1} flex="1" minW={0}>
+                        <Text fontSize="sm" fontWeight="medium" color="gray.700" truncate title={name}>
+                          {name}
+                        </Text>
+                        <Text fontSize="xs" color="gray.500">
+                          {new Date(entry.createdAt).toLocaleString()} · {formatMegabytes(entry.size)}
+                        </Text>
+                        <Text fontSize="xs" color="gray.600">
+                          {getEntrySummary(entry)}
+                        </Text>
+                        <HStack gap={1.5} flexWrap="wrap">
+                          <Button onClick={() => onOpen(entry)} disabled={!canOpenEntry} size="xs" variant="outline">
+                            <HStack as="span" gap={1}>
+                              <Icon as={FiExternalLink} boxSize={3.5} />
+                              <span>Open</span>
+                            </HStack>
+                          </Button>
+                          <Button
+                            onClick={() => onReprocess(entry)}
+                            disabled={!canOpenEntry || !entry.sourceVideo}
+                            title={entry.sourceVideo ? undefined : "The source video was not stored"}
+                            size="xs"
+                            variant="outline"
+                          >
+                            <HStack as="span" gap={1}>
+                              <Icon as={FiRefreshCw} boxSize={3.5} />
+                              <span>Re-process</span>
+                            </HStack>
+                          </Button>
+                          <Button
+                            aria-label={`Delete ${name}`}
+                            onClick={() => onDelete(entry.id)}
+                            size="xs"
+                            variant="outline"
+                            colorPalette="red"
+                            minW="7"
+                            px={0}
+                          >
+                            <Icon as={FiTrash2} boxSize={3.5} />
+                          </Button>
+                        </HStack>
+                      </Stack>
+                    </HStack>
+                  )
+                })}
+              </Stack>
+            )}
+          </Drawer.Body>
+          <Drawer.Footer justifyContent="space-between">
+            <Text fontSize="xs" color="gray.500">
+              {formatMegabytes(totalSize)} of {quotaMb} MB used; oldest runs are removed first.
+            </Text>
+            <Button onClick={onClear} disabled={entries.length === 0} size="sm" variant="outline" colorPalette="red">
+              Clear All
+            </Button>
+          </Drawer.Footer>
+          <Drawer.CloseTrigger asChild>
+            <CloseButton size="sm" />
+          </Drawer.CloseTrigger>
+        </Drawer.Content>
+      </Drawer.Positioner>
+    </Drawer.Root>
+  )
+}
+
+export default HistoryDrawer
@@ -82,7 +82,7 @@ const RecordingActions = ({
         </Tooltip.Root>
       </HStack>
 
-      <Input type="file" accept="video/*" ref={fileInputRef} onChange={onUploadVideo} display="none" />
+      <Input type="file" accept="video/*" multiple ref={fileInputRef} onChange={onUploadVideo} display="none" />
       <Button
         onClick={() => fileInputRef.current?.click()}
         disabled={isProcessing || isRecording}
@@ -93,7 +93,7 @@ const RecordingActions = ({
       >
         <HStack as="span" gap={1}>
           <Icon as={FiUpload} boxSize={4} />
-          <span>Upload Video</span>
+          <span>Upload Videos</span>
         </HStack>
       </Button>
     </HStack>
@@ -0,0 +1,118 @@
+import { Box, Button, HStack, Icon, Image, Text } from "@chakra-ui/react"
+import { useCallback, useState } from "react"
+import { FiCornerUpLeft, FiDownload, FiFilm, FiRotateCcw } from "react-icons/fi"
+import { usePairTracking } from "../hooks"
+import { createTimestampedFileName, downloadFile, renderAnnotatedImage } from "../utils"
+import CardPairOverlay from "./CardPairOverlay"
+
+type ResultBoardProps = {
+  onError?: (error: ErrorNotice) => void
+  // Only passed when the source video is still available to re-read frames from.
+  onPickCellFrame?: (cellIndex: number) => void
+  result: ProcessingResult
+}
+
+const formatPercent = (value: number): string => `${(value * 100).toFixed(1)}%`
+
+const ResultBoard = ({ onError, onPickCellFrame, result }: ResultBoardProps) => {
+  const [isExporting, setIsExporting] = useState(false)
+  const [isPickingFrame, setIsPickingFrame] = useState(false)
+  const { markedPairs, markIndexByCell, pendingCell, resetMarks, selectCell, undoMark } = usePairTracking()
+
+  const totalPairs = Math.floor(result.cellRects.length / 2)
+  const hasMarks = markedPairs.length > 0 || pendingCell !== null
+
+  const exportAnnotatedImage = useCallback(async () => {
+    try {
+      setIsExporting(true)
+      const annotatedUrl = await renderAnnotatedImage({ markedPairs, result })
+      downloadFile(annotatedUrl, createTimestampedFileName("memory-game-solution-annotated", "png"))
+    } catch (error) {
+      onError?.({
+        title: "Export Failed",
+        description: error instanceof Error ? error.message : "Unknown error",
+      })
+    } finally {
+      setIsExporting(false)
+    }
+  }, [markedPairs, onError, result])
+
+  return (
+    <Box overflow="hidden" borderWidth="1px" borderColor="gray.200" borderRadius="2xl" bg="gray.50" p={1}>
+      <HStack justify="space-between" gap={2} px={2} py={1.5} flexWrap="wrap">
+        <Text fontSize="xs" color="gray.600">
+          {isPickingFrame
+            ? "Click a card to pick the frame it is taken from."
+            : pendingCell !== null
+              ? "Select the matching card."
+              : `Matched ${markedPairs.length} / ${totalPairs} pairs. Click two cards to mark them.`}
+        </Text>
+        <HStack gap={2}>
+          {onPickCellFrame && (
+            <Button
+              onClick={() => setIsPickingFrame((current) => !current)}
+              aria-pressed={isPickingFrame}
+              size="xs"
+              variant={isPickingFrame ? "solid" : "outline"}
+            >
+              <HStack as="span" gap={1}>
+                <Icon as={FiFilm} boxSize={3.5} />
+                <span>Pick Frame</span>
+              </HStack>
+            </Button>
+          )}
+          <Button onClick={undoMark} disabled={!hasMarks} size="xs" variant="outline">
+            <HStack as="span" gap={1}>
+              <Icon as={FiCornerUpLeft} boxSize={3.5} />
+              <span>Undo</span>
+            </HStack>
+          </Button>
+          <Button onClick={resetMarks} disabled={!hasMarks} size="xs" variant="outline">
+            <HStack as="span" gap={1}>
+              <Icon as={FiRotateCcw} boxSize={3.5} />
+              <span>Reset</span>
+            </HStack>
+          </Button>
+          <Button
+            onClick={() => void exportAnnotatedImage()}
+            loading={isExporting}
+            size="xs"
+            variant="outline"
+            colorPalette="green"
+          >
+            <HStack as="span" gap={1}>
+              <Icon as={FiDownload} boxSize={3.5} />
+              <span>Export Annotated</span>
+            </HStack>
+          </Button>
+        </HStack>
+      </HStack>
+
+      <Box position="relative">
+        <Image
+          src={result.imageUrl}
+          alt="Merged memory-game solution"
+          w="full"
+          borderWidth="1px"
+          borderColor="gray.200"
+          borderRadius="xl"
+        />
+        <CardPairOverlay
+          markIndexByCell={markIndexByCell}
+          onSelectCell={isPickingFrame && onPickCellFrame ? onPickCellFrame : selectCell}
+          pendingCell={pendingCell}
+          result={result}
+        />
+      </Box>
+
+      <Text fontSize="xs" color={result.isCardLayoutDetected ? "gray.500" : "orange.600"} px={2} pt={1}>
+        {result.isCardLayoutDetected
+          ? `${result.cardLayout.cols} × ${result.cardLayout.rows} board detected at ${formatPercent(result.cardLayout.left)}, ${formatPercent(result.cardLayout.top)} ` +
+            `(cards ${formatPercent(result.cardLayout.cardWidth)} × ${formatPercent(result.cardLayout.cardHeight)}).`
+          : "No board detected; using the configured card layout."}
+      </Text>
+    </Box>
+  )
+}
+
+export default ResultBoard
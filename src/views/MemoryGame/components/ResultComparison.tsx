@@ -0,0 +1,90 @@
+import { Box, Button, HStack, Image, SimpleGrid, Stack, Text } from "@chakra-ui/react"
+import { PROCESSING_OPTION_FIELDS } from "../utils"
+
+type ResultComparisonProps = {
+  comparedResult: ProcessingResult
+  onDismiss: () => void
+  onRestore: () => void
+  result: ProcessingResult
+}
+
+const countCellsByStatus = (cells: CellResult[], status: CellStatus): number =>
+  cells.filter((cell) => cell.status === status).length
+
+const getResultStats = (result: ProcessingResult): string[] => [
+  `${result.cells.length - countCellsByStatus(result.cells, "missing")}/${result.cells.length} cards captured`,
+  `${countCellsByStatus(result.cells, "low-confidence")} low confidence · ${result.pairs.length} pairs matched`,
+  `${result.cardLayout.cols} × ${result.cardLayout.rows} board ${result.isCardLayoutDetected ? "detected" : "from settings"}`,
+  `Processed in ${(result.timings.totalMs / 1000).toFixed(1)}s`,
+]
+
+// Only what differs between the runs, so the cause of a different result is easy to spot.
+const getSettingChanges = (previous: ProcessingResult, next: ProcessingResult): string[] => {
+  const changes = PROCESSING_OPTION_FIELDS.filter(({ key }) => previous.options[key] !== next.options[key]).map(
+    ({ key, label }) => `${label}: ${previous.options[key]} → ${next.options[key]}`,
+  )
+
+  const previousGrid = `${previous.cardLayout.cols} × ${previous.cardLayout.rows}`
+  const nextGrid = `${next.cardLayout.cols} × ${next.cardLayout.rows}`
+  if (previousGrid !== nextGrid) {
+    changes.push(`Board size: ${previousGrid} → ${nextGrid}`)
+  }
+
+  return changes
+}
+
+const ComparisonColumn = ({ label, result }: { label: string; result: ProcessingResult }) => (
+  <Stack gap={1.5}>
+    <Text fontSize="sm" fontWeight="semibold" color="gray.700">
+      {label}
+    </Text>
+    <Image
+      src={result.imageUrl}
+      alt={`${label} solution`}
+      w="full"
+      borderWidth="1px"
+      borderColor="gray.200"
+      borderRadius="xl"
+    />
+    {getResultStats(result).map((line) => (
+      <Text key={line} fontSize="xs" color="gray.600">
+        {line}
+      </Text>
+    ))}
+  </Stack>
+)
+
+const ResultComparison = ({ comparedResult, onDismiss, onRestore, result }: ResultComparisonProps) => {
+  const settingChanges = getSettingChanges(comparedResult, result)
+
+  return (
+    <Box borderWidth="1px" borderColor="gray.200" bg="whiteAlpha.900" borderRadius="3xl" p={4} shadow="sm">
+      <Stack gap={3}>
+        <HStack justify="space-between" align="flex-start" gap={2} flexWrap="wrap">
+          <Text fontSize="xs" fontWeight="semibold" textTransform="uppercase" letterSpacing="widest" color="gray.500">
+            Re-processing Comparison
+          </Text>
+          <HStack gap={2}>
+            <Button onClick={onRestore} size="sm" variant="outline" rounded="full">
+              Keep Previous
+            </Button>
+            <Button onClick={onDismiss} size="sm" colorPalette="blue" rounded="full">
+              Keep New
+            </Button>
+          </HStack>
+        </HStack>
+
+        <Text fontSize="xs" color="gray.600">
+          {settingChanges.length > 0 ? `Changed: ${settingChanges.join(" · ")}` : "Same settings as the previous run."}
+        </Text>
+
+        <SimpleGrid columns={{ base: 1, md: 2 }} gap={3}>
+          <ComparisonColumn label="Previous" result={comparedResult} />
+          <ComparisonColumn label="Re-processed" result={result} />
+        </SimpleGrid>
+      </Stack>
+    </Box>
+  )
+}
+
+export default ResultComparison
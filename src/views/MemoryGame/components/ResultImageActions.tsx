@@ -0,0 +1,111 @@
+import { Button, HStack, Icon } from "@chakra-ui/react"
+import { useState } from "react"
+import { FiCheck, FiCopy, FiDownload, FiFileText, FiShare2 } from "react-icons/fi"
+import {
+  canShareFiles,
+  copyResultImageToClipboard,
+  createProcessingReportUrl,
+  createResultImageFileName,
+  createTimestampedFileName,
+  downloadBlob,
+  downloadFile,
+  encodeResultImage,
+  IMAGE_EXPORT_FORMATS,
+  shareResultImage,
+} from "../utils"
+
+type ResultImageActionsProps = {
+  imageExport: ImageExportSettings
+  onError?: (error: ErrorNotice) => void
+  result: ProcessingResult
+}
+
+const COPIED_FEEDBACK_MS = 2000
+
+const isAbortError = (error: unknown): boolean => error instanceof DOMException && error.name === "AbortError"
+
+const ResultImageActions = ({ imageExport, onError, result }: ResultImageActionsProps) => {
+  const [pendingAction, setPendingAction] = useState<"download" | "share" | null>(null)
+  const [isCopied, setIsCopied] = useState(false)
+
+  const runAction = async (action: "download" | "share", title: string, run: () => Promise<void>) => {
+    try {
+      setPendingAction(action)
+      await run()
+    } catch (error) {
+      // Closing the share sheet rejects with an AbortError.
+      if (isAbortError(error)) {
+        return
+      }
+
+      onError?.({ title, description: error instanceof Error ? error.message : "Unknown error" })
+    } finally {
+      setPendingAction(null)
+    }
+  }
+
+  const downloadImage = () =>
+    runAction("download", "Download Failed", async () => {
+      downloadBlob(await encodeResultImage(result, imageExport), createResultImageFileName(imageExport.format))
+    })
+
+  const shareImage = () => runAction("share", "Share Failed", () => shareResultImage(result, imageExport))
+
+  const copyImage = async () => {
+    try {
+      await copyResultImageToClipboard(result)
+      setIsCopied(true)
+      window.setTimeout(() => setIsCopied(false), COPIED_FEEDBACK_MS)
+    } catch (error) {
+      onError?.({
+        title: "Copy Failed",
+        description: error instanceof Error ? error.message : "Unknown error",
+      })
+    }
+  }
+
+  return (
+    <HStack gap={2} flexWrap="wrap">
+      <Button
+        onClick={() => void downloadImage()}
+        loading={pendingAction === "download"}
+        size="xs"
+        variant="outline"
+        colorPalette="green"
+      >
+        <HStack as="span" gap={1}>
+          <Icon as={FiDownload} boxSize={3.5} />
+          <span>Download {IMAGE_EXPORT_FORMATS[imageExport.format].label}</span>
+        </HStack>
+      </Button>
+      <Button onClick={() => void copyImage()} size="xs" variant="outline">
+        <HStack as="span" gap={1}>
+          <Icon as={isCopied ? FiCheck : FiCopy} boxSize={3.5} />
+          <span>{isCopied ? "Copied" : "Copy"}</span>
+        </HStack>
+      </Button>
+      {canShareFiles() && (
+        <Button onClick={() => void shareImage()} loading={pendingAction === "share"} size="xs" variant="outline">
+          <HStack as="span" gap={1}>
+            <Icon as={FiShare2} boxSize={3.5} />
+            <span>Share</span>
+          </HStack>
+        </Button>
+      )}
+      <Button
+        onClick={() =>
+          downloadFile(createProcessingReportUrl(result), createTimestampedFileName("memory-game-result", "json"))
+        }
+        size="xs"
+        variant="outline"
+      >
+        <HStack as="span" gap={1}>
+          <Icon as={FiFileText} boxSize={3.5} />
+          <span>Export JSON</span>
+        </HStack>
+      </Button>
+    </HStack>
+  )
+}
+
+export default ResultImageActions
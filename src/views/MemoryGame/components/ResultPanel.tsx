@@ -1,15 +1,55 @@
-import { Box, Button, HStack, Icon, Image, Progress, Stack, Text } from "@chakra-ui/react"
-import { FiX } from "react-icons/fi"
+import { Box, Button, HStack, Icon, Progress, Stack, Text } from "@chakra-ui/react"
+import { FiAlertTriangle, FiRefreshCw, FiX } from "react-icons/fi"
+import { getFrameTime } from "../utils"
+import ResultBoard from "./ResultBoard"
+import ResultImageActions from "./ResultImageActions"
 
 type ResultPanelProps = {
-  resultImage: string | null
+  result: ProcessingResult | null
+  imageExport: ImageExportSettings
   processingCurrent: number
   processingTotal: number
+  isLiveProcessing: boolean
   isProcessing: boolean
+  onCancel: () => void
   onClear: () => void
+  onError?: (error: ErrorNotice) => void
+  onPickCellFrame?: (cellIndex: number) => void
+  // Only passed when the source video of the result is still available.
+  onReprocess?: () => void
 }
 
-const ResultPanel = ({ resultImage, processingCurrent, processingTotal, isProcessing, onClear }: ResultPanelProps) => {
+const formatSeconds = (result: ProcessingResult, frameIndex: number): string =>
+  `${getFrameTime(result, frameIndex).toFixed(1)}s`
+
+const countCellsByStatus = (cells: CellResult[], status: CellStatus): number =>
+  cells.filter((cell) => cell.status === status).length
+
+const getResultSummary = (result: ProcessingResult): string => {
+  const { activeRange, cells, timings } = result
+  const capturedCount = cells.length - countCellsByStatus(cells, "missing")
+  const range = activeRange
+    ? `active ${formatSeconds(result, activeRange.start)}–${formatSeconds(result, activeRange.end)}`
+    : "merged live"
+
+  return `${capturedCount}/${cells.length} cards captured · ${range} · processed in ${(timings.totalMs / 1000).toFixed(1)}s`
+}
+
+const ResultPanel = ({
+  result,
+  imageExport,
+  processingCurrent,
+  processingTotal,
+  isLiveProcessing,
+  isProcessing,
+  onCancel,
+  onClear,
+  onError,
+  onPickCellFrame,
+  onReprocess,
+}: ResultPanelProps) => {
+  const missingCount = result ? countCellsByStatus(result.cells, "missing") : 0
+  const lowConfidenceCount = result ? countCellsByStatus(result.cells, "low-confidence") : 0
   const progressValue = processingTotal > 0 ? Math.round((processingCurrent / processingTotal) * 100) : 0
 
   return (
@@ -19,16 +59,52 @@ const ResultPanel = ({ resultImage, processingCurrent, processingTotal, isProces
           <Text fontSize="xs" fontWeight="semibold" textTransform="uppercase" letterSpacing="widest" color="gray.500">
             Generated Solution
           </Text>
-          {resultImage && (
-            <Button onClick={onClear} size="sm" variant="outline" rounded="full">
-              <HStack as="span" gap={1}>
-                <Icon as={FiX} boxSize={4} />
-                <span>Clear</span>
-              </HStack>
-            </Button>
+          {result && (
+            <HStack gap={2}>
+              {onReprocess && (
+                <Button
+                  onClick={onReprocess}
+                  disabled={isProcessing || isLiveProcessing}
+                  title="Process the same video again with the current settings"
+                  size="sm"
+                  variant="outline"
+                  rounded="full"
+                >
+                  <HStack as="span" gap={1}>
+                    <Icon as={FiRefreshCw} boxSize={4} />
+                    <span>Re-process</span>
+                  </HStack>
+                </Button>
+              )}
+              <Button onClick={onClear} size="sm" variant="outline" rounded="full">
+                <HStack as="span" gap={1}>
+                  <Icon as={FiX} boxSize={4} />
+                  <span>Clear</span>
+                </HStack>
+              </Button>
+            </HStack>
           )}
         </HStack>
 
+        {isLiveProcessing && (
+          <Box borderWidth="1px" borderColor="red.100" bg="red.50" borderRadius="2xl" p={3}>
+            <HStack justify="space-between" gap={2}>
+              <HStack gap={2}>
+                <Box boxSize={2} borderRadius="full" bg="red.500" />
+                <Text fontSize="sm" fontWeight="medium" color="gray.700">
+                  {result ? "Live preview updates while recording" : "Waiting for the first revealed cards"}
+                </Text>
+              </HStack>
+              <Button onClick={onCancel} size="xs" variant="outline" colorPalette="red">
+                <HStack as="span" gap={1}>
+                  <Icon as={FiX} boxSize={3.5} />
+                  <span>Cancel</span>
+                </HStack>
+              </Button>
+            </HStack>
+          </Box>
+        )}
+
         {isProcessing && (
           <Box borderWidth="1px" borderColor="blue.100" bg="blue.50" borderRadius="2xl" p={3}>
             <Stack gap={2}>
@@ -45,26 +121,55 @@ const ResultPanel = ({ resultImage, processingCurrent, processingTotal, isProces
                   <Progress.Range />
                 </Progress.Track>
               </Progress.Root>
-              <Text fontSize="xs" color="gray.600">
-                Frame {processingCurrent} / {processingTotal}
-              </Text>
+              <HStack justify="space-between" gap={2}>
+                <Text fontSize="xs" color="gray.600">
+                  Frame {processingCurrent} / {processingTotal}
+                </Text>
+                <Button onClick={onCancel} size="xs" variant="outline" colorPalette="red">
+                  <HStack as="span" gap={1}>
+                    <Icon as={FiX} boxSize={3.5} />
+                    <span>Cancel</span>
+                  </HStack>
+                </Button>
+              </HStack>
             </Stack>
           </Box>
         )}
 
-        {resultImage ? (
-          <Box overflow="hidden" borderWidth="1px" borderColor="gray.200" borderRadius="2xl" bg="gray.50" p={1}>
-            <Image
-              src={resultImage}
-              alt="Merged memory-game solution"
-              w="full"
-              borderWidth="1px"
-              borderColor="gray.200"
-              borderRadius="xl"
-            />
-          </Box>
+        {result ? (
+          <Stack gap={2}>
+            <HStack justify="space-between" gap={2} flexWrap="wrap">
+              <Text fontSize="xs" color="gray.600">
+                {getResultSummary(result)}
+              </Text>
+              <ResultImageActions imageExport={imageExport} onError={onError} result={result} />
+            </HStack>
+            {(missingCount > 0 || lowConfidenceCount > 0) && (
+              <HStack
+                gap={2}
+                borderWidth="1px"
+                borderColor="orange.200"
+                bg="orange.50"
+                borderRadius="xl"
+                px={3}
+                py={2}
+                color="orange.700"
+              >
+                <Icon as={FiAlertTriangle} boxSize={4} flexShrink={0} />
+                <Text fontSize="sm" fontWeight="medium">
+                  {missingCount > 0
+                    ? `${result.cells.length - missingCount}/${result.cells.length} cards captured — re-record?`
+                    : `All ${result.cells.length} cards captured.`}
+                  {lowConfidenceCount > 0 && ` ${lowConfidenceCount} low confidence; double-check the marked cards.`}
+                </Text>
+              </HStack>
+            )}
+            {/* Keyed by run so manual pair marks reset for every new solution but survive manual overrides. */}
+            <ResultBoard key={result.runId} onError={onError} onPickCellFrame={onPickCellFrame} result={result} />
+          </Stack>
         ) : (
-          !isProcessing && (
+          !isProcessing &&
+          !isLiveProcessing && (
             <Box
               borderWidth="1px"
               borderStyle="dashed"
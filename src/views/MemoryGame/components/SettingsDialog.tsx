@@ -1,22 +1,146 @@
-import { Button, Checkbox, Dialog, Stack } from "@chakra-ui/react"
+import {
+  Button,
+  Checkbox,
+  Dialog,
+  Field,
+  HStack,
+  Icon,
+  NativeSelect,
+  NumberInput,
+  Separator,
+  Slider,
+  Stack,
+  Text,
+} from "@chakra-ui/react"
+import { useState } from "react"
+import { FiCrosshair, FiTrash2 } from "react-icons/fi"
+import {
+  AUTO_STOP_SECONDS_LIMITS,
+  HISTORY_QUOTA_MB_LIMITS,
+  IMAGE_EXPORT_FORMATS,
+  IMAGE_EXPORT_QUALITY_LIMITS,
+  isValidAutoStopSeconds,
+  isValidHistoryQuotaMb,
+} from "../utils"
+import AdvancedProcessingSettings from "./AdvancedProcessingSettings"
+import CardGridSizeInput from "./CardGridSizeInput"
 
 type SettingsDialogProps = {
-  isAutoStopEnabled: boolean
-  isConnectedPreviewVisible: boolean
   isOpen: boolean
-  onAutoStopChange: (isEnabled: boolean) => void
-  onConnectedPreviewChange: (isVisible: boolean) => void
+  onDeleteLayoutProfile: (profileId: string) => void
+  onOpenCalibration: () => void
   onOpenChange: (isOpen: boolean) => void
+  onProcessingOptionsChange: (changes: Partial<ProcessingOptions>) => string | null
+  onProcessingOptionsReset: () => void
+  onSettingsChange: (changes: Partial<Omit<UserSettings, "processingOptions">>) => void
+  settings: UserSettings
+}
+
+type AutoStopSecondsInputProps = {
+  disabled: boolean
+  onChange: (seconds: number) => void
+  value: number
+}
+
+// Keeps the typed text locally so clearing the field does not snap back to the saved value.
+const AutoStopSecondsInput = ({ disabled, onChange, value }: AutoStopSecondsInputProps) => {
+  const [inputValue, setInputValue] = useState(String(value))
+  const isInvalid = !isValidAutoStopSeconds(Number(inputValue))
+
+  return (
+    <Field.Root invalid={isInvalid} disabled={disabled} ps={6}>
+      <HStack gap={2}>
+        <Text fontSize="sm" color="gray.600">
+          after
+        </Text>
+        <NumberInput.Root
+          value={inputValue}
+          min={AUTO_STOP_SECONDS_LIMITS.min}
+          max={AUTO_STOP_SECONDS_LIMITS.max}
+          step={1}
+          size="xs"
+          w={20}
+          onValueChange={(details) => {
+            setInputValue(details.value)
+            if (isValidAutoStopSeconds(details.valueAsNumber)) {
+              onChange(details.valueAsNumber)
+            }
+          }}
+        >
+          <NumberInput.Control />
+          <NumberInput.Input aria-label="Auto stop duration in seconds" />
+        </NumberInput.Root>
+        <Text fontSize="sm" color="gray.600">
+          seconds
+        </Text>
+      </HStack>
+      {isInvalid && (
+        <Field.ErrorText>
+          Enter a whole number between {AUTO_STOP_SECONDS_LIMITS.min} and {AUTO_STOP_SECONDS_LIMITS.max}.
+        </Field.ErrorText>
+      )}
+    </Field.Root>
+  )
+}
+
+type HistoryQuotaInputProps = {
+  disabled: boolean
+  onChange: (quotaMb: number) => void
+  value: number
+}
+
+const HistoryQuotaInput = ({ disabled, onChange, value }: HistoryQuotaInputProps) => {
+  const [inputValue, setInputValue] = useState(String(value))
+  const isInvalid = !isValidHistoryQuotaMb(Number(inputValue))
+
+  return (
+    <Field.Root invalid={isInvalid} disabled={disabled} ps={6}>
+      <HStack gap={2}>
+        <Text fontSize="sm" color="gray.600">
+          up to
+        </Text>
+        <NumberInput.Root
+          value={inputValue}
+          min={HISTORY_QUOTA_MB_LIMITS.min}
+          max={HISTORY_QUOTA_MB_LIMITS.max}
+          step={50}
+          size="xs"
+          w={24}
+          onValueChange={(details) => {
+            setInputValue(details.value)
+            if (isValidHistoryQuotaMb(details.valueAsNumber)) {
+              onChange(details.valueAsNumber)
+            }
+          }}
+        >
+          <NumberInput.Control />
+          <NumberInput.Input aria-label="History storage limit in megabytes" />
+        </NumberInput.Root>
+        <Text fontSize="sm" color="gray.600">
+          MB, oldest removed first
+        </Text>
+      </HStack>
+      {isInvalid && (
+        <Field.ErrorText>
+          Enter a whole number between {HISTORY_QUOTA_MB_LIMITS.min} and {HISTORY_QUOTA_MB_LIMITS.max}.
+        </Field.ErrorText>
+      )}
+    </Field.Root>
+  )
 }
 
 const SettingsDialog = ({
-  isAutoStopEnabled,
-  isConnectedPreviewVisible,
   isOpen,
-  onAutoStopChange,
-  onConnectedPreviewChange,
+  onDeleteLayoutProfile,
+  onOpenCalibration,
   onOpenChange,
+  onProcessingOptionsChange,
+  onProcessingOptionsReset,
+  onSettingsChange,
+  settings,
 }: SettingsDialogProps) => {
+  const selectedLayoutProfile = settings.layoutProfiles.find(({ id }) => id === settings.selectedLayoutProfileId)
+
   return (
     <Dialog.Root open={isOpen} onOpenChange={(event) => onOpenChange(event.open)}>
       <Dialog.Backdrop />
@@ -27,9 +151,30 @@ const SettingsDialog = ({
           </Dialog.Header>
           <Dialog.Body>
             <Stack gap={3} alignItems="flex-start">
+              <Stack gap={1.5}>
+                <Checkbox.Root
+                  checked={settings.isAutoStopEnabled}
+                  onCheckedChange={(event) => onSettingsChange({ isAutoStopEnabled: event.checked === true })}
+                  size="sm"
+                  cursor="pointer"
+                  colorPalette="blue"
+                >
+                  <Checkbox.HiddenInput />
+                  <Checkbox.Control />
+                  <Checkbox.Label color="gray.600" fontWeight="semibold">
+                    Auto stop recording
+                  </Checkbox.Label>
+                </Checkbox.Root>
+                <AutoStopSecondsInput
+                  disabled={!settings.isAutoStopEnabled}
+                  onChange={(autoStopSeconds) => onSettingsChange({ autoStopSeconds })}
+                  value={settings.autoStopSeconds}
+                />
+              </Stack>
+
               <Checkbox.Root
-                checked={isAutoStopEnabled}
-                onCheckedChange={(event) => onAutoStopChange(event.checked === true)}
+                checked={settings.isConnectedPreviewVisible}
+                onCheckedChange={(event) => onSettingsChange({ isConnectedPreviewVisible: event.checked === true })}
                 size="sm"
                 cursor="pointer"
                 colorPalette="blue"
@@ -37,13 +182,13 @@ const SettingsDialog = ({
                 <Checkbox.HiddenInput />
                 <Checkbox.Control />
                 <Checkbox.Label color="gray.600" fontWeight="semibold">
-                  Auto stop recording after 7 seconds
+                  Show connected stream preview
                 </Checkbox.Label>
               </Checkbox.Root>
 
               <Checkbox.Root
-                checked={isConnectedPreviewVisible}
-                onCheckedChange={(event) => onConnectedPreviewChange(event.checked === true)}
+                checked={settings.isLiveProcessingEnabled}
+                onCheckedChange={(event) => onSettingsChange({ isLiveProcessingEnabled: event.checked === true })}
                 size="sm"
                 cursor="pointer"
                 colorPalette="blue"
@@ -51,9 +196,204 @@ const SettingsDialog = ({
                 <Checkbox.HiddenInput />
                 <Checkbox.Control />
                 <Checkbox.Label color="gray.600" fontWeight="semibold">
-                  Show connected stream preview
+                  Build solution live while recording
                 </Checkbox.Label>
               </Checkbox.Root>
+
+              <Separator w="full" />
+
+              <Stack gap={1.5}>
+                <Text fontSize="sm" color="gray.600" fontWeight="semibold">
+                  Board size
+                </Text>
+                {/* Calibrated profiles carry their own grid size; remount so the inputs follow the selection. */}
+                <CardGridSizeInput
+                  key={selectedLayoutProfile?.id ?? "default"}
+                  disabled={Boolean(selectedLayoutProfile)}
+                  onChange={(cardGridSize) => onSettingsChange({ cardGridSize })}
+                  value={selectedLayoutProfile?.layout ?? settings.cardGridSize}
+                />
+              </Stack>
+
+              <Field.Root>
+                <Field.Label color="gray.600" fontWeight="semibold">
+                  Card layout
+                </Field.Label>
+                <HStack gap={2} w="full">
+                  <NativeSelect.Root size="sm" flex="1">
+                    <NativeSelect.Field
+                      value={settings.selectedLayoutProfileId ?? ""}
+                      onChange={(event) => onSettingsChange({ selectedLayoutProfileId: event.target.value || null })}
+                    >
+                      <option value="">Default layout</option>
+                      {settings.layoutProfiles.map((profile) => (
+                        <option key={profile.id} value={profile.id}>
+                          {profile.name}
+                        </option>
+                      ))}
+                    </NativeSelect.Field>
+                    <NativeSelect.Indicator />
+                  </NativeSelect.Root>
+                  <Button
+                    aria-label="Delete layout profile"
+                    disabled={!settings.selectedLayoutProfileId}
+                    onClick={() => {
+                      if (settings.selectedLayoutProfileId) {
+                        onDeleteLayoutProfile(settings.selectedLayoutProfileId)
+                      }
+                    }}
+                    size="sm"
+                    variant="outline"
+                    colorPalette="red"
+                    minW="8"
+                    px={0}
+                  >
+                    <Icon as={FiTrash2} boxSize={4} />
+                  </Button>
+                  <Button onClick={onOpenCalibration} size="sm" variant="outline">
+                    <HStack as="span" gap={1}>
+                      <Icon as={FiCrosshair} boxSize={4} />
+                      <span>Calibrate</span>
+                    </HStack>
+                  </Button>
+                </HStack>
+                {settings.isLayoutDetectionEnabled && (
+                  <Field.HelperText>Used when the board cannot be detected automatically.</Field.HelperText>
+                )}
+              </Field.Root>
+
+              <Checkbox.Root
+                checked={settings.isLayoutDetectionEnabled}
+                onCheckedChange={(event) => onSettingsChange({ isLayoutDetectionEnabled: event.checked === true })}
+                size="sm"
+                cursor="pointer"
+                colorPalette="blue"
+              >
+                <Checkbox.HiddenInput />
+                <Checkbox.Control />
+                <Checkbox.Label color="gray.600" fontWeight="semibold">
+                  Detect card layout automatically
+                </Checkbox.Label>
+              </Checkbox.Root>
+
+              <Separator w="full" />
+
+              <HStack gap={4} w="full" align="flex-end">
+                <Field.Root w={32} flexShrink={0}>
+                  <Field.Label color="gray.600" fontWeight="semibold">
+                    Image format
+                  </Field.Label>
+                  <NativeSelect.Root size="sm">
+                    <NativeSelect.Field
+                      value={settings.imageExport.format}
+                      onChange={(event) =>
+                        onSettingsChange({
+                          imageExport: { ...settings.imageExport, format: event.target.value as ImageExportFormat },
+                        })
+                      }
+                    >
+                      {Object.entries(IMAGE_EXPORT_FORMATS).map(([format, { label }]) => (
+                        <option key={format} value={format}>
+                          {label}
+                        </option>
+                      ))}
+                    </NativeSelect.Field>
+                    <NativeSelect.Indicator />
+                  </NativeSelect.Root>
+                </Field.Root>
+                <Slider.Root
+                  flex="1"
+                  size="sm"
+                  min={IMAGE_EXPORT_QUALITY_LIMITS.min}
+                  max={IMAGE_EXPORT_QUALITY_LIMITS.max}
+                  step={0.01}
+                  value={[settings.imageExport.quality]}
+                  disabled={!IMAGE_EXPORT_FORMATS[settings.imageExport.format].isLossy}
+                  onValueChange={(details) =>
+                    onSettingsChange({ imageExport: { ...settings.imageExport, quality: details.value[0] } })
+                  }
+                  pb={2}
+                >
+                  <HStack justify="space-between">
+                    <Slider.Label fontSize="sm" color="gray.600" fontWeight="semibold">
+                      Quality
+                    </Slider.Label>
+                    <Text fontSize="sm" color="gray.600">
+                      {IMAGE_EXPORT_FORMATS[settings.imageExport.format].isLossy
+                        ? `${Math.round(settings.imageExport.quality * 100)}%`
+                        : "Lossless"}
+                    </Text>
+                  </HStack>
+                  <Slider.Control>
+                    <Slider.Track>
+                      <Slider.Range />
+                    </Slider.Track>
+                    <Slider.Thumbs />
+                  </Slider.Control>
+                </Slider.Root>
+              </HStack>
+
+              <Separator w="full" />
+
+              <Stack gap={1.5}>
+                <Checkbox.Root
+                  checked={settings.history.isEnabled}
+                  onCheckedChange={(event) =>
+                    onSettingsChange({ history: { ...settings.history, isEnabled: event.checked === true } })
+                  }
+                  size="sm"
+                  cursor="pointer"
+                  colorPalette="blue"
+                >
+                  <Checkbox.HiddenInput />
+                  <Checkbox.Control />
+                  <Checkbox.Label color="gray.600" fontWeight="semibold">
+                    Keep a history of results
+                  </Checkbox.Label>
+                </Checkbox.Root>
+                <Checkbox.Root
+                  checked={settings.history.isSourceVideoStored}
+                  disabled={!settings.history.isEnabled}
+                  onCheckedChange={(event) =>
+                    onSettingsChange({ history: { ...settings.history, isSourceVideoStored: event.checked === true } })
+                  }
+                  size="sm"
+                  cursor="pointer"
+                  colorPalette="blue"
+                  ps={6}
+                >
+                  <Checkbox.HiddenInput />
+                  <Checkbox.Control />
+                  <Checkbox.Label color="gray.600">Also store source videos (needed to re-process)</Checkbox.Label>
+                </Checkbox.Root>
+                <HistoryQuotaInput
+                  disabled={!settings.history.isEnabled}
+                  onChange={(quotaMb) => onSettingsChange({ history: { ...settings.history, quotaMb } })}
+                  value={settings.history.quotaMb}
+                />
+              </Stack>
+
+              <Separator w="full" />
+
+              <Checkbox.Root
+                checked={settings.isDebugPanelEnabled}
+                onCheckedChange={(event) => onSettingsChange({ isDebugPanelEnabled: event.checked === true })}
+                size="sm"
+                cursor="pointer"
+                colorPalette="blue"
+              >
+                <Checkbox.HiddenInput />
+                <Checkbox.Control />
+                <Checkbox.Label color="gray.600" fontWeight="semibold">
+                  Show processing debug panel
+                </Checkbox.Label>
+              </Checkbox.Root>
+
+              <AdvancedProcessingSettings
+                onChange={onProcessingOptionsChange}
+                onReset={onProcessingOptionsReset}
+                options={settings.processingOptions}
+              />
             </Stack>
           </Dialog.Body>
           <Dialog.Footer>
@@ -1,4 +1,10 @@
+export { default as BatchPanel } from "./BatchPanel"
+export { default as CalibrationDialog } from "./CalibrationDialog"
+export { default as DebugPanel } from "./DebugPanel"
+export { default as FramePickerDialog } from "./FramePickerDialog"
+export { default as HistoryDrawer } from "./HistoryDrawer"
 export { default as PreviewSidebar } from "./PreviewSidebar"
 export { default as RecordingActions } from "./RecordingActions"
+export { default as ResultComparison } from "./ResultComparison"
 export { default as ResultPanel } from "./ResultPanel"
 export { default as SettingsDialog } from "./SettingsDialog"
@@ -1,2 +1,7 @@
+export { useBatchProcessing } from "./useBatchProcessing"
+export { usePairTracking } from "./usePairTracking"
 export { useRecordingController } from "./useRecordingController"
+export { useResultHistory } from "./useResultHistory"
+export { useSettings } from "./useSettings"
+export { useVideoFileDrop } from "./useVideoFileDrop"
 export { useVideoProcessing } from "./useVideoProcessing"
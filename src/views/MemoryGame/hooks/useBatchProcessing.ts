@@ -0,0 +1,129 @@
+import { useCallback, useEffect, useRef, useState } from "react"
+import { processVideoToImage } from "../utils"
+
+type UseBatchProcessingArgs = {
+  autoDetectLayout?: boolean
+  cardLayout?: CardLayoutPercent
+  onResult?: (result: ProcessingResult, sourceVideo: Blob) => void
+  options?: ProcessingOptions
+}
+
+const INITIAL_PROGRESS = { current: 0, total: 0 }
+
+const isAbortError = (error: unknown): boolean => error instanceof DOMException && error.name === "AbortError"
+
+// Processes uploaded videos one after another; each job keeps its own status, progress and result.
+// Every job starts with the settings current at that moment, not those of when the batch started.
+export const useBatchProcessing = (args: UseBatchProcessingArgs = {}) => {
+  const [jobs, setJobs] = useState<BatchJob[]>([])
+  const [isBatchProcessing, setIsBatchProcessing] = useState(false)
+
+  // Jobs waiting to be started; the runner takes them from here rather than from state.
+  const pendingJobsRef = useRef<BatchJob[]>([])
+  const abortControllerRef = useRef<AbortController | null>(null)
+  const argsRef = useRef(args)
+
+  useEffect(() => {
+    argsRef.current = args
+  })
+
+  const updateJob = useCallback((id: string, update: Partial<BatchJob>) => {
+    setJobs((current) => current.map((job) => (job.id === id ? { ...job, ...update } : job)))
+  }, [])
+
+  const runQueue = useCallback(async () => {
+    const abortController = new AbortController()
+    abortControllerRef.current = abortController
+    setIsBatchProcessing(true)
+
+    try {
+      while (!abortController.signal.aborted) {
+        const job = pendingJobsRef.current.shift()
+        if (!job) {
+          return
+        }
+
+        const { id, file } = job
+        const { autoDetectLayout, cardLayout, onResult, options } = argsRef.current
+        updateJob(id, { status: "processing" })
+
+        try {
+          const result = await processVideoToImage(file, {
+            autoDetectLayout,
+            cardLayout,
+            onProgress: (current, total) => updateJob(id, { progress: { current, total } }),
+            options,
+            signal: abortController.signal,
+          })
+          updateJob(id, { status: "done", result })
+          onResult?.(result, file)
+        } catch (error) {
+          if (isAbortError(error)) {
+            updateJob(id, { status: "cancelled" })
+            return
+          }
+
+          // A broken file should not stop the rest of the batch.
+          updateJob(id, { status: "failed", error: error instanceof Error ? error.message : "Unknown error" })
+        }
+      }
+    } finally {
+      if (abortControllerRef.current === abortController) {
+        abortControllerRef.current = null
+        setIsBatchProcessing(false)
+      }
+    }
+  }, [updateJob])
+
+  const enqueueFiles = useCallback(
+    (files: File[]) => {
+      const nextJobs = files.map(
+        (file): BatchJob => ({
+          id: crypto.randomUUID(),
+          file,
+          status: "queued",
+          progress: INITIAL_PROGRESS,
+          result: null,
+          error: null,
+        }),
+      )
+      setJobs((current) => [...current, ...nextJobs])
+      pendingJobsRef.current.push(...nextJobs)
+
+      // A running batch picks new jobs up on its own.
+      if (!abortControllerRef.current) {
+        void runQueue()
+      }
+    },
+    [runQueue],
+  )
+
+  const cancelBatch = useCallback(() => {
+    const cancelledIds = new Set(pendingJobsRef.current.map(({ id }) => id))
+    pendingJobsRef.current = []
+    abortControllerRef.current?.abort()
+    // Files added right after cancelling start a fresh run instead of waiting for this one to wind down.
+    abortControllerRef.current = null
+    setIsBatchProcessing(false)
+    setJobs((current) =>
+      current.map((job) => (cancelledIds.has(job.id) ? { ...job, status: "cancelled" as const } : job)),
+    )
+  }, [])
+
+  const clearBatch = useCallback(() => {
+    cancelBatch()
+    setJobs([])
+  }, [cancelBatch])
+
+  useEffect(() => {
+    return () => abortControllerRef.current?.abort()
+  }, [])
+
+  return {
+    cancelBatch,
+    clearBatch,
+    enqueueFiles,
+    isBatchProcessing,
+    jobs,
+  }
+}
@@ -0,0 +1,67 @@
+import { useCallback, useMemo, useState } from "react"
+
+type UsePairTrackingResult = {
+  markedPairs: [number, number][]
+  markIndexByCell: Map<number, number>
+  pendingCell: number | null
+  resetMarks: () => void
+  selectCell: (cellIndex: number) => void
+  undoMark: () => void
+}
+
+export const usePairTracking = (): UsePairTrackingResult => {
+  const [markedPairs, setMarkedPairs] = useState<[number, number][]>([])
+  const [pendingCell, setPendingCell] = useState<number | null>(null)
+
+  const markIndexByCell = useMemo(() => {
+    const lookup = new Map<number, number>()
+    markedPairs.forEach(([first, second], markIndex) => {
+      lookup.set(first, markIndex)
+      lookup.set(second, markIndex)
+    })
+    return lookup
+  }, [markedPairs])
+
+  const selectCell = useCallback(
+    (cellIndex: number) => {
+      if (markIndexByCell.has(cellIndex)) {
+        return
+      }
+
+      if (pendingCell === null) {
+        setPendingCell(cellIndex)
+        return
+      }
+
+      // Clicking the pending cell again deselects it.
+      if (pendingCell !== cellIndex) {
+        setMarkedPairs((pairs) => [...pairs, [pendingCell, cellIndex]])
+      }
+      setPendingCell(null)
+    },
+    [markIndexByCell, pendingCell],
+  )
+
+  const undoMark = useCallback(() => {
+    if (pendingCell !== null) {
+      setPendingCell(null)
+      return
+    }
+
+    setMarkedPairs((pairs) => pairs.slice(0, -1))
+  }, [pendingCell])
+
+  const resetMarks = useCallback(() => {
+    setPendingCell(null)
+    setMarkedPairs([])
+  }, [])
+
+  return {
+    markedPairs,
+    markIndexByCell,
+    pendingCell,
+    resetMarks,
+    selectCell,
+    undoMark,
+  }
+}
@@ -1,10 +1,12 @@
 import { type RefObject, useCallback, useEffect, useRef, useState } from "react"
-import { createMediaRecorderSession } from "../utils"
+import { createMediaRecorderSession, createTimestampedFileName, downloadFile } from "../utils"
 
 type UseRecordingControllerArgs = {
   autoStopEnabled: boolean
   autoStopSeconds?: number
   onRecordedBlob: (blob: Blob) => void
+  onRecordingStart?: (recordingTrack: MediaStreamTrack) => void
+  onRecordingDiscarded?: () => void
   onError?: (error: ErrorNotice) => void
 }
 
@@ -35,6 +37,8 @@ export const useRecordingController = ({
   autoStopEnabled,
   autoStopSeconds = 7,
   onRecordedBlob,
+  onRecordingStart,
+  onRecordingDiscarded,
   onError,
 }: UseRecordingControllerArgs): UseRecordingControllerResult => {
   const [hasActiveShare, setHasActiveShare] = useState(false)
@@ -84,10 +88,9 @@ export const useRecordingController = ({
       clearRecordedVideoUrl()
 
       const nextUrl = URL.createObjectURL(blob)
-      const timestamp = new Date().toISOString().replace(/[:.]/g, "-")
       recordedVideoUrlRef.current = nextUrl
       setRecordedVideoUrl(nextUrl)
-      setRecordedVideoFileName(`memory-game-recording-${timestamp}.${extension}`)
+      setRecordedVideoFileName(createTimestampedFileName("memory-game-recording", extension))
     },
     [clearRecordedVideoUrl],
   )
@@ -233,6 +236,8 @@ export const useRecordingController = ({
       const { mediaRecorder, recordingStream } = createMediaRecorderSession({
         captureTrack: captureVideoTrack,
         onError: () => {
+          // End the live run of this recording; a partial file that still arrives is processed on its own.
+          onRecordingDiscarded?.()
           emitError("Recording Error", "An error occurred while capturing video. Please try again.")
         },
         onStop: ({ blob, extension }) => {
@@ -244,6 +249,7 @@ export const useRecordingController = ({
             return
           }
 
+          onRecordingDiscarded?.()
           emitError("Empty Recording", "Recorded video has no data. Please try again.")
         },
       })
@@ -254,22 +260,30 @@ export const useRecordingController = ({
       mediaRecorder.start(RECORDING_TIMESLICE_MS)
       setRecordingSeconds(0)
       setIsRecording(true)
+
+      const recordingTrack = recordingStream.getVideoTracks()[0]
+      if (recordingTrack) {
+        onRecordingStart?.(recordingTrack)
+      }
     } catch (error) {
       reportError("Recording Failed", error)
     }
-  }, [emitError, onRecordedBlob, reportError, setRecordedVideoBlob, stopRecordingStream])
+  }, [
+    emitError,
+    onRecordedBlob,
+    onRecordingDiscarded,
+    onRecordingStart,
+    reportError,
+    setRecordedVideoBlob,
+    stopRecordingStream,
+  ])
 
   const downloadRecordedVideo = useCallback(() => {
     if (!recordedVideoUrl) {
       return
     }
 
-    const anchor = document.createElement("a")
-    anchor.href = recordedVideoUrl
-    anchor.download = recordedVideoFileName
-    document.body.appendChild(anchor)
-    anchor.click()
-    anchor.remove()
+    downloadFile(recordedVideoUrl, recordedVideoFileName)
   }, [recordedVideoFileName, recordedVideoUrl])
 
   const toggleShareConnection = useCallback(() => {
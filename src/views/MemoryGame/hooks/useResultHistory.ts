@@ -0,0 +1,86 @@
+import { useCallback, useEffect, useState } from "react"
+import {
+  addHistoryEntry,
+  clearHistory,
+  createHistoryEntry,
+  deleteHistoryEntry,
+  enforceHistoryQuota,
+  getHistoryQuotaBytes,
+  listHistoryEntries,
+} from "../utils"
+
+type UseResultHistoryArgs = {
+  onError?: (error: ErrorNotice) => void
+  settings: HistorySettings
+}
+
+export const useResultHistory = ({ onError, settings }: UseResultHistoryArgs) => {
+  const [entries, setEntries] = useState<HistoryEntry[]>([])
+
+  const reportError = useCallback(
+    (error: unknown) => {
+      onError?.({
+        title: "History Unavailable",
+        description: error instanceof Error ? error.message : "Unknown error",
+      })
+    },
+    [onError],
+  )
+
+  // Runs a store update, then reloads the list so it always mirrors the database.
+  const updateHistory = useCallback(
+    async (update?: () => Promise<void>) => {
+      try {
+        await update?.()
+        setEntries(await listHistoryEntries())
+      } catch (error) {
+        reportError(error)
+      }
+    },
+    [reportError],
+  )
+
+  const quotaBytes = getHistoryQuotaBytes(settings)
+
+  // Also trims the stored history right away when the quota is lowered.
+  useEffect(() => {
+    let isCancelled = false
+
+    enforceHistoryQuota(quotaBytes)
+      .then(listHistoryEntries)
+      .then((nextEntries) => {
+        if (!isCancelled) {
+          setEntries(nextEntries)
+        }
+      })
+      .catch(reportError)
+
+    return () => {
+      isCancelled = true
+    }
+  }, [quotaBytes, reportError])
+
+  const saveRun = useCallback(
+    (result: ProcessingResult, sourceVideo: Blob | null) => {
+      if (!settings.isEnabled) {
+        return
+      }
+
+      const entry = createHistoryEntry(result, settings.isSourceVideoStored ? sourceVideo : null)
+      void updateHistory(() => addHistoryEntry(entry, quotaBytes))
+    },
+    [quotaBytes, settings.isEnabled, settings.isSourceVideoStored, updateHistory],
+  )
+
+  const deleteEntry = useCallback((id: string) => void updateHistory(() => deleteHistoryEntry(id)), [updateHistory])
+
+  const clearEntries = useCallback(() => void updateHistory(clearHistory), [updateHistory])
+
+  return {
+    clearEntries,
+    deleteEntry,
+    entries,
+    saveRun,
+    totalSize: entries.reduce((sum, entry) => sum + entry.size, 0),
+  }
+}
@@ -0,0 +1,79 @@
+import { useCallback, useEffect, useState } from "react"
+import { DEFAULT_PROCESSING_OPTIONS, loadSettings, resolveProcessingOptions, saveSettings } from "../utils"
+
+type UseSettingsArgs = {
+  onError?: (error: ErrorNotice) => void
+}
+
+export const useSettings = ({ onError }: UseSettingsArgs = {}) => {
+  // Loaded once; issues are reported after mount because toasts cannot be raised during render.
+  const [{ settings: initialSettings, issues: loadIssues }] = useState(loadSettings)
+  const [settings, setSettings] = useState<UserSettings>(initialSettings)
+
+  useEffect(() => {
+    if (loadIssues.length === 0) {
+      return
+    }
+
+    onError?.({
+      title: "Settings Reset",
+      description: `Some saved settings were invalid and have been reset to defaults: ${loadIssues.join("; ")}`,
+    })
+  }, [loadIssues, onError])
+
+  useEffect(() => {
+    saveSettings(settings)
+  }, [settings])
+
+  const updateSettings = useCallback((changes: Partial<Omit<UserSettings, "processingOptions">>) => {
+    setSettings((current) => ({ ...current, ...changes }))
+  }, [])
+
+  // Invalid changes are rejected with a message and the last valid options stay in effect.
+  const updateProcessingOptions = useCallback(
+    (changes: Partial<ProcessingOptions>): string | null => {
+      try {
+        const processingOptions = resolveProcessingOptions({ ...settings.processingOptions, ...changes })
+        setSettings((current) => ({ ...current, processingOptions }))
+        return null
+      } catch (error) {
+        return error instanceof Error ? error.message : "Invalid processing option"
+      }
+    },
+    [settings.processingOptions],
+  )
+
+  const resetProcessingOptions = useCallback(() => {
+    setSettings((current) => ({ ...current, processingOptions: DEFAULT_PROCESSING_OPTIONS }))
+  }, [])
+
+  // Saving under an existing name replaces that profile; either way the saved profile becomes active.
+  const saveLayoutProfile = useCallback((name: string, layout: CardLayoutPercent) => {
+    setSettings((current) => {
+      const existing = current.layoutProfiles.find((profile) => profile.name === name)
+      const profile: CardLayoutProfile = { id: existing?.id ?? crypto.randomUUID(), name, layout }
+      const layoutProfiles = existing
+        ? current.layoutProfiles.map((candidate) => (candidate.id === existing.id ? profile : candidate))
+        : [...current.layoutProfiles, profile]
+
+      return { ...current, layoutProfiles, selectedLayoutProfileId: profile.id }
+    })
+  }, [])
+
+  const deleteLayoutProfile = useCallback((profileId: string) => {
+    setSettings((current) => ({
+      ...current,
+      layoutProfiles: current.layoutProfiles.filter(({ id }) => id !== profileId),
+      selectedLayoutProfileId: current.selectedLayoutProfileId === profileId ? null : current.selectedLayoutProfileId,
+    }))
+  }, [])
+
+  return {
+    deleteLayoutProfile,
+    resetProcessingOptions,
+    saveLayoutProfile,
+    settings,
+    updateProcessingOptions,
+    updateSettings,
+  }
+}
@@ -0,0 +1,74 @@
+import { type DragEvent, useCallback, useEffect, useState } from "react"
+
+type UseVideoFileDropArgs = {
+  // While false, dropped and pasted files are swallowed instead of opened by the browser.
+  isEnabled: boolean
+  onFiles: (files: File[]) => void
+}
+
+const hasFiles = (dataTransfer: DataTransfer): boolean => dataTransfer.types.includes("Files")
+
+// Turns the element the handlers are spread on into a drop target and accepts files pasted anywhere on the page.
+export const useVideoFileDrop = ({ isEnabled, onFiles }: UseVideoFileDropArgs) => {
+  const [isDraggingFiles, setIsDraggingFiles] = useState(false)
+
+  const onDragOver = useCallback(
+    (event: DragEvent<HTMLElement>) => {
+      if (!hasFiles(event.dataTransfer)) {
+        return
+      }
+
+      event.preventDefault()
+      event.dataTransfer.dropEffect = isEnabled ? "copy" : "none"
+      setIsDraggingFiles(isEnabled)
+    },
+    [isEnabled],
+  )
+
+  const onDragLeave = useCallback((event: DragEvent<HTMLElement>) => {
+    // Moving between child elements also fires dragleave on the target.
+    if (event.relatedTarget instanceof Node && event.currentTarget.contains(event.relatedTarget)) {
+      return
+    }
+
+    setIsDraggingFiles(false)
+  }, [])
+
+  const onDrop = useCallback(
+    (event: DragEvent<HTMLElement>) => {
+      if (!hasFiles(event.dataTransfer)) {
+        return
+      }
+
+      event.preventDefault()
+      setIsDraggingFiles(false)
+      if (isEnabled) {
+        onFiles(Array.from(event.dataTransfer.files))
+      }
+    },
+    [isEnabled, onFiles],
+  )
+
+  useEffect(() => {
+    const handlePaste = (event: ClipboardEvent) => {
+      const files = Array.from(event.clipboardData?.files ?? [])
+      // Plain text pastes (e.g. into settings inputs) are left alone.
+      if (files.length === 0) {
+        return
+      }
+
+      event.preventDefault()
+      if (isEnabled) {
+        onFiles(files)
+      }
+    }
+
+    window.addEventListener("paste", handlePaste)
+    return () => window.removeEventListener("paste", handlePaste)
+  }, [isEnabled, onFiles])
+
+  return {
+    dropTargetProps: { onDragLeave, onDragOver, onDrop },
+    isDraggingFiles,
+  }
+}
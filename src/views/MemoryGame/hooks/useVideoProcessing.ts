@@ -1,5 +1,5 @@
-import { useCallback, useState } from "react"
-import { processVideoToImage } from "../utils"
+import { useCallback, useEffect, useRef, useState } from "react"
+import { createLiveProcessingSession, processVideoToImage } from "../utils"
 
 type ProgressState = {
   current: number
@@ -7,7 +7,19 @@ type ProgressState = {
 }
 
 type UseVideoProcessingArgs = {
+  autoDetectLayout?: boolean
+  cardLayout?: CardLayoutPercent
+  collectDiagnostics?: boolean
   onError?: (error: ErrorNotice) => void
+  // Called for every finished run (not for live previews or results shown via `showResult`).
+  onResult?: (result: ProcessingResult, sourceVideo: Blob) => void
+  options?: ProcessingOptions
+}
+
+type ShownResult = {
+  result: ProcessingResult | null
+  sourceVideo: Blob | null
+  comparedResult: ProcessingResult | null
 }
 
 const INITIAL_PROGRESS: ProgressState = { current: 0, total: 0 }
@@ -20,44 +32,244 @@ const getErrorMessage = (error: unknown): string => {
   return "Unknown error"
 }
 
-export const useVideoProcessing = ({ onError }: UseVideoProcessingArgs = {}) => {
+const isAbortError = (error: unknown): boolean => error instanceof DOMException && error.name === "AbortError"
+
+export const useVideoProcessing = ({
+  autoDetectLayout,
+  cardLayout,
+  collectDiagnostics,
+  onError,
+  onResult,
+  options,
+}: UseVideoProcessingArgs = {}) => {
   const [isProcessing, setIsProcessing] = useState(false)
   const [progress, setProgress] = useState<ProgressState>(INITIAL_PROGRESS)
-  const [resultImage, setResultImage] = useState<string | null>(null)
+  const [isLiveProcessing, setIsLiveProcessing] = useState(false)
+  const [result, setResult] = useState<ProcessingResult | null>(null)
+  // Video the current result came from, kept so single frames can be re-read (manual overrides).
+  const [sourceVideo, setSourceVideo] = useState<Blob | null>(null)
+  // Result the current one replaced when the same video was re-processed, shown side by side.
+  const [comparedResult, setComparedResult] = useState<ProcessingResult | null>(null)
+
+  const abortControllerRef = useRef<AbortController | null>(null)
+  const liveSessionRef = useRef<ReturnType<typeof createLiveProcessingSession> | null>(null)
+  // What was shown before live previews replaced it; restored when the live run is cancelled.
+  const shownBeforeLiveRef = useRef<ShownResult | null>(null)
+  // Set when the live run was cancelled while still recording, so the finished recording is not processed.
+  const isLiveRunCancelledRef = useRef(false)
 
   const clearResult = useCallback(() => {
-    setResultImage(null)
+    setResult(null)
+    setSourceVideo(null)
+    setComparedResult(null)
     setProgress(INITIAL_PROGRESS)
   }, [])
 
+  // Shows a result that was processed elsewhere (batch runs) as the current one.
+  const showResult = useCallback((nextResult: ProcessingResult, blob: Blob | null) => {
+    setResult(nextResult)
+    setSourceVideo(blob)
+    setComparedResult(null)
+    setProgress(INITIAL_PROGRESS)
+  }, [])
+
+  const cancelProcessing = useCallback(() => {
+    abortControllerRef.current?.abort()
+    if (liveSessionRef.current) {
+      isLiveRunCancelledRef.current = true
+    }
+    liveSessionRef.current = null
+    setIsLiveProcessing(false)
+
+    const shownBeforeLive = shownBeforeLiveRef.current
+    shownBeforeLiveRef.current = null
+    if (shownBeforeLive) {
+      setResult(shownBeforeLive.result)
+      setSourceVideo(shownBeforeLive.sourceVideo)
+      setComparedResult(shownBeforeLive.comparedResult)
+    }
+  }, [])
+
+  // The recording produced no video, so there is nothing left to skip.
+  const discardRecording = useCallback(() => {
+    cancelProcessing()
+    isLiveRunCancelledRef.current = false
+  }, [cancelProcessing])
+
+  // Resolves with the new result, or null when the run failed or was cancelled.
   const processVideo = useCallback(
-    async (blob: Blob) => {
+    async (blob: Blob): Promise<ProcessingResult | null> => {
+      abortControllerRef.current?.abort()
+      const abortController = new AbortController()
+      abortControllerRef.current = abortController
+      liveSessionRef.current = null
+      shownBeforeLiveRef.current = null
+
+      setIsLiveProcessing(false)
       setIsProcessing(true)
       setProgress(INITIAL_PROGRESS)
-      setResultImage(null)
 
       try {
-        const result = await processVideoToImage(blob, (current, total) => {
-          setProgress({ current, total })
+        const nextResult = await processVideoToImage(blob, {
+          autoDetectLayout,
+          cardLayout,
+          collectDiagnostics,
+          onProgress: (current, total) => {
+            setProgress({ current, total })
+          },
+          options,
+          signal: abortController.signal,
         })
-        setResultImage(result)
+        setResult(nextResult)
+        setSourceVideo(blob)
+        setComparedResult(null)
+        onResult?.(nextResult, blob)
+        return nextResult
       } catch (error) {
+        // Cancelled runs keep the previous result as-is.
+        if (!isAbortError(error)) {
+          onError?.({
+            title: "Video Processing Failed",
+            description: getErrorMessage(error),
+          })
+        }
+
+        return null
+      } finally {
+        if (abortControllerRef.current === abortController) {
+          abortControllerRef.current = null
+          setIsProcessing(false)
+        }
+      }
+    },
+    [autoDetectLayout, cardLayout, collectDiagnostics, onError, onResult, options],
+  )
+
+  // Runs the current source video again with the current settings and keeps the old result for comparison.
+  const reprocessVideo = useCallback(async () => {
+    if (!result || !sourceVideo) {
+      return
+    }
+
+    const previousResult = result
+    if (await processVideo(sourceVideo)) {
+      setComparedResult(previousResult)
+    }
+  }, [processVideo, result, sourceVideo])
+
+  // Switches back to the compared result, e.g. when the new settings turned out worse.
+  const restoreComparedResult = useCallback(() => {
+    if (comparedResult) {
+      setResult(comparedResult)
+      setComparedResult(null)
+    }
+  }, [comparedResult])
+
+  const dismissComparison = useCallback(() => setComparedResult(null), [])
+
+  // Merges frames from the recording track while it runs; previews replace the current result.
+  const startLiveProcessing = useCallback(
+    (track: MediaStreamTrack) => {
+      abortControllerRef.current?.abort()
+      const abortController = new AbortController()
+      abortControllerRef.current = abortController
+      isLiveRunCancelledRef.current = false
+      shownBeforeLiveRef.current = { result, sourceVideo, comparedResult }
+
+      try {
+        liveSessionRef.current = createLiveProcessingSession({
+          autoDetectLayout,
+          cardLayout,
+          collectDiagnostics,
+          track,
+          // The recording is not complete yet, so previews have no source video.
+          onPreview: (preview) => {
+            setResult(preview)
+            setSourceVideo(null)
+            setComparedResult(null)
+          },
+          options,
+          signal: abortController.signal,
+        })
+        setIsLiveProcessing(true)
+        setProgress(INITIAL_PROGRESS)
+      } catch (error) {
+        abortControllerRef.current = null
+        shownBeforeLiveRef.current = null
         onError?.({
-          title: "Video Processing Failed",
+          title: "Live Processing Unavailable",
           description: getErrorMessage(error),
         })
+      }
+    },
+    [autoDetectLayout, cardLayout, collectDiagnostics, comparedResult, onError, options, result, sourceVideo],
+  )
+
+  // Finishes the live session of this recording, or processes the file when there is none.
+  // Nothing is processed when the live run was cancelled during the recording.
+  const processRecording = useCallback(
+    async (blob: Blob) => {
+      if (isLiveRunCancelledRef.current) {
+        isLiveRunCancelledRef.current = false
+        return
+      }
+
+      const liveSession = liveSessionRef.current
+      const abortController = abortControllerRef.current
+      if (!liveSession || !abortController) {
+        await processVideo(blob)
+        return
+      }
+
+      liveSessionRef.current = null
+      setIsLiveProcessing(false)
+      setIsProcessing(true)
+
+      try {
+        const nextResult = await liveSession.finish()
+        shownBeforeLiveRef.current = null
+        setResult(nextResult)
+        setSourceVideo(blob)
+        setComparedResult(null)
+        onResult?.(nextResult, blob)
+      } catch (error) {
+        if (isAbortError(error)) {
+          return
+        }
+
+        // The recorded file is still complete, so fall back to the regular pipeline.
+        await processVideo(blob)
       } finally {
-        setIsProcessing(false)
+        if (abortControllerRef.current === abortController) {
+          abortControllerRef.current = null
+          setIsProcessing(false)
+        }
       }
     },
-    [onError],
+    [onResult, processVideo],
   )
 
+  useEffect(() => {
+    return () => abortControllerRef.current?.abort()
+  }, [])
+
   return {
+    cancelProcessing,
+    comparedResult,
+    discardRecording,
+    dismissComparison,
+    isLiveProcessing,
     isProcessing,
+    processRecording,
     processVideo,
     progress,
     clearResult,
-    resultImage,
+    reprocessVideo,
+    restoreComparedResult,
+    result,
+    showResult,
+    sourceVideo,
+    startLiveProcessing,
+    updateResult: setResult,
   }
 }
@@ -0,0 +1,1260 @@
+/*
+  Memory Game Video -> Result Image
+
+  Business context:
+  - Video input is one Memory Game run (8 x 3 cards by default; the card layout sets the grid size).
+  - The beginning of the video usually contains a "start state" (before pressing Start),
+    where real card reveal actions have not started yet.
+  - After the game starts, cards flip one by one and show face-up content briefly.
+  - At the end, the game can return to a face-down card state.
+
+  Target output:
+  - Produce one merged image that captures as many revealed card faces as possible,
+    so users can identify matching pairs quickly.
+
+  Important constraint:
+  - Noisy frames / non-reveal frames must be filtered out:
+    for example pre-start screens, popups, text overlays, and transition effects.
+
+  Current strategy:
+  - Scan the whole video at a low frame rate (`options.scanFps`) to locate the gameplay segment.
+    Recordings can be arbitrarily long: the scan keeps one frame at a time and only a few numbers
+    per sample. With auto-detection on, the board is first located on a few probe frames so the
+    scan scores the real card cells; otherwise (or when no probe shows the board) it uses the
+    configured layout, which the result reports.
+  - Pick the baseline from calm face-down boards (see scoreFaceDownBoard) at both ends of the
+    segment, optionally as a per-pixel median of several of them.
+  - Locate the card board on the face-down baseline (see detectCardLayout), falling back to
+    the board found by the probes, then to the configured layout.
+  - Sample the gameplay segment at `options.fps` and detect the active gameplay range inside it
+    (avoid pre-start and end-state noise). Frames with a dimmed screen, a dialog or a banner
+    (see classifyFrameOverlay) are kept out of the merge.
+  - Track every card over time: each flip (face-down -> rotating -> face-up -> rotating ->
+    face-down) is one reveal, and its candidate is the middle frame of its still face-up plateau.
+    The best reveal per cell is kept, based on "revealed content" confidence and local sharpness,
+    and the still frames around its middle are aligned and fused (see fuseCellFrames).
+  - Match the merged card faces into pairs so the UI can label them.
+
+  This module runs inside the processing worker: frames arrive as ImageBitmaps or VideoFrames and
+  all pixel work happens on OffscreenCanvas so the main thread (and the live preview) stays responsive.
+*/
+import { DEFAULT_CARD_GRID_SIZE, isValidCardGridSize, isValidCardLayoutPercent } from "./cardLayout"
+import { createOverlayClassifier } from "./classifyFrameOverlay"
+import { detectCardLayout } from "./detectCardLayout"
+import { fuseCellFrames } from "./fuseCellFrames"
+import { matchCardPairs } from "./matchCardPairs"
+import { scoreFaceDownBoard } from "./scoreFaceDownBoard"
+import { applySharpen } from "./sharpenImage"
+import type { AnalysisResult, DecodedFrame } from "./processingWorkerProtocol"
+
+type AnalyzeVideoFramesArgs = {
+  duration: number
+  videoWidth: number
+  videoHeight: number
+  readFrame: (time: number) => Promise<DecodedFrame>
+  options: ProcessingOptions
+  cardLayout: CardLayoutPercent
+  autoDetectLayout: boolean
+  collectDiagnostics: boolean
+  onProgress?: (current: number, total: number) => void
+}
+
+// Tunable thresholds (fps, scales, pixel thresholds, active-range rules...) come in as
+// `ProcessingOptions`; see `processingOptions.ts` for their defaults and valid ranges.
+const PROCESSING_CONFIG = {
+  // Emit UI progress every N analyzed/merged frames.
+  progressUpdateInterval: 5,
+}
+
+const CARD_EVAL_INSET_RATIO = 0.12
+const CARD_COPY_BUFFER_RATIO = { left: 0.015, right: 0.015, top: 0.04, bottom: 0.02 }
+const CARD_CANDIDATE_LIMIT = 3
+// Frames kept per cell while a face-up plateau is open (raised to twice `fusedFrameCount`); longer
+// plateaus keep every other frame instead, so memory does not grow with how long a card stays up.
+const PLATEAU_FRAME_LIMIT = 16
+// Scan samples that show the board (this share of face-down cells) while something moves are gameplay.
+const GAMEPLAY_MIN_FACE_DOWN_SCORE = 0.5
+// Gameplay samples further apart than this belong to different runs; the busiest run is processed.
+const MAX_GAMEPLAY_GAP_SECONDS = 8
+// Baseline candidates are searched this far outside the gameplay segment (same game, same board position).
+const BASELINE_SEARCH_SECONDS = 30
+const BASELINE_CANDIDATES_PER_SIDE = 3
+// Share of face-down cells a baseline candidate needs (see scoreFaceDownBoard).
+const BASELINE_MIN_FACE_DOWN_SCORE = 0.75
+// Positions (share of the duration) probed for the board before the scan; the middle is most likely gameplay.
+const LAYOUT_PROBE_POSITIONS = [0.5, 0.3, 0.7, 0.1, 0.9]
+// Re-read frames for the fallback fill; candidates are visited per cell, so a few frames suffice.
+const FALLBACK_FRAME_CACHE_LIMIT = 4
+// A revealed cell is low confidence when its best reveal stood still for only this many frames,
+// or when its best score is far below the typical revealed card (often a half-flipped card or a popup edge).
+const LOW_CONFIDENCE_MAX_PLATEAU_FRAMES = 1
+const LOW_CONFIDENCE_SCORE_RATIO = 0.2
+
+const clamp = (value: number, min: number, max: number): number => Math.max(min, Math.min(value, max))
+
+const createCanvasContext = (width: number, height: number): OffscreenCanvasRenderingContext2D => {
+  const ctx = new OffscreenCanvas(width, height).getContext("2d", { willReadFrequently: true })
+  if (!ctx) {
+    throw new Error("Canvas 2D context is not available")
+  }
+
+  return ctx
+}
+
+const shouldEmitProgress = (completed: number, total: number): boolean =>
+  completed % PROCESSING_CONFIG.progressUpdateInterval === 0 || completed === total
+
+const toGridCellRegion = (
+  baseRect: Rect,
+  frameWidth: number,
+  frameHeight: number,
+  copyBufferRatio?: typeof CARD_COPY_BUFFER_RATIO,
+): GridCellRegion => {
+  // Use a smaller inner region for scoring to avoid card borders/shadows affecting metrics.
+  const cellWidth = Math.max(1, baseRect.right - baseRect.left)
+  const cellHeight = Math.max(1, baseRect.bottom - baseRect.top)
+  const insetX = Math.floor(cellWidth * CARD_EVAL_INSET_RATIO)
+  const insetY = Math.floor(cellHeight * CARD_EVAL_INSET_RATIO)
+
+  const evalLeft = clamp(baseRect.left + insetX, baseRect.left, baseRect.right - 1)
+  const evalRight = clamp(baseRect.right - insetX, evalLeft + 1, baseRect.right)
+  const evalTop = clamp(baseRect.top + insetY, baseRect.top, baseRect.bottom - 1)
+  const evalBottom = clamp(baseRect.bottom - insetY, evalTop + 1, baseRect.bottom)
+
+  if (!copyBufferRatio) {
+    return {
+      copyRect: baseRect,
+      evalRect: { left: evalLeft, top: evalTop, right: evalRight, bottom: evalBottom },
+      evalPixelCount: Math.max(1, (evalRight - evalLeft) * (evalBottom - evalTop)),
+    }
+  }
+
+  // Expand copy area slightly so the final merge keeps anti-aliased text/edge pixels.
+  const copyLeft = clamp(baseRect.left - Math.round(cellWidth * copyBufferRatio.left), 0, Math.max(0, frameWidth - 2))
+  const copyRight = clamp(baseRect.right + Math.round(cellWidth * copyBufferRatio.right), copyLeft + 1, frameWidth)
+  const copyTop = clamp(baseRect.top - Math.round(cellHeight * copyBufferRatio.top), 0, Math.max(0, frameHeight - 2))
+  const copyBottom = clamp(baseRect.bottom + Math.round(cellHeight * copyBufferRatio.bottom), copyTop + 1, frameHeight)
+
+  return {
+    copyRect: { left: copyLeft, top: copyTop, right: copyRight, bottom: copyBottom },
+    evalRect: { left: evalLeft, top: evalTop, right: evalRight, bottom: evalBottom },
+    evalPixelCount: Math.max(1, (evalRight - evalLeft) * (evalBottom - evalTop)),
+  }
+}
+
+const buildUniformGridRegions = (width: number, height: number, { cols, rows }: CardGridSize): GridCellRegion[] => {
+  const xEdges = Array.from({ length: cols + 1 }, (_, index) => Math.round((index / cols) * width))
+  const yEdges = Array.from({ length: rows + 1 }, (_, index) => Math.round((index / rows) * height))
+  const regions: GridCellRegion[] = []
+
+  for (let row = 0; row < rows; row += 1) {
+    for (let col = 0; col < cols; col += 1) {
+      const left = xEdges[col]
+      const right = xEdges[col + 1]
+      const top = yEdges[row]
+      const bottom = yEdges[row + 1]
+
+      regions.push(toGridCellRegion({ left, top, right, bottom }, width, height))
+    }
+  }
+
+  return regions
+}
+
+// Card layout percentages come from the selected calibration profile (or the built-in default).
+export const buildGridRegions = (width: number, height: number, layout: CardLayoutPercent): GridCellRegion[] => {
+  if (!isValidCardLayoutPercent(layout)) {
+    // Fallback for unknown layouts/videos: treat the whole frame as a uniform grid.
+    return buildUniformGridRegions(width, height, isValidCardGridSize(layout) ? layout : DEFAULT_CARD_GRID_SIZE)
+  }
+
+  const regions: GridCellRegion[] = []
+
+  for (let row = 0; row < layout.rows; row += 1) {
+    for (let col = 0; col < layout.cols; col += 1) {
+      const leftPercent = layout.left + col * (layout.cardWidth + layout.gapX)
+      const topPercent = layout.top + row * (layout.cardHeight + layout.gapY)
+
+      const left = clamp(Math.round(leftPercent * width), 0, Math.max(0, width - 2))
+      const right = clamp(Math.round((leftPercent + layout.cardWidth) * width), left + 1, width)
+      const top = clamp(Math.round(topPercent * height), 0, Math.max(0, height - 2))
+      const bottom = clamp(Math.round((topPercent + layout.cardHeight) * height), top + 1, height)
+
+      regions.push(toGridCellRegion({ left, top, right, bottom }, width, height, CARD_COPY_BUFFER_RATIO))
+    }
+  }
+
+  return regions
+}
+
+const cropImageData = (pixels: Uint8ClampedArray, imageWidth: number, rect: Rect): ImageData => {
+  const crop = new ImageData(rect.right - rect.left, rect.bottom - rect.top)
+  for (let y = rect.top; y < rect.bottom; y += 1) {
+    const rowStart = (y * imageWidth + rect.left) * 4
+    crop.data.set(pixels.subarray(rowStart, rowStart + crop.width * 4), (y - rect.top) * crop.width * 4)
+  }
+
+  return crop
+}
+
+const pasteImageData = (crop: ImageData, targetPixels: Uint8ClampedArray, imageWidth: number, rect: Rect): void => {
+  for (let y = rect.top; y < rect.bottom; y += 1) {
+    const cropRowStart = (y - rect.top) * crop.width * 4
+    targetPixels.set(crop.data.subarray(cropRowStart, cropRowStart + crop.width * 4), (y * imageWidth + rect.left) * 4)
+  }
+}
+
+const encodeImageData = (imageData: ImageData): Promise<Blob> => {
+  const canvas = new OffscreenCanvas(imageData.width, imageData.height)
+  const ctx = canvas.getContext("2d")
+  if (!ctx) {
+    throw new Error("OffscreenCanvas 2D context is not available")
+  }
+
+  ctx.putImageData(imageData, 0, 0)
+  return canvas.convertToBlob({ type: "image/png" })
+}
+
+const getBrightnessDiff = (first: Uint8ClampedArray, second: Uint8ClampedArray, offset: number): number =>
+  (Math.abs(first[offset] - second[offset]) +
+    Math.abs(first[offset + 1] - second[offset + 1]) +
+    Math.abs(first[offset + 2] - second[offset + 2])) /
+  3
+
+const pushCardCandidate = (candidates: CardCandidate[], next: CardCandidate): void => {
+  const duplicate = candidates.find((candidate) => candidate.frameIndex === next.frameIndex)
+  if (duplicate) {
+    if (next.score > duplicate.score) {
+      duplicate.score = next.score
+    }
+  } else {
+    candidates.push(next)
+  }
+
+  candidates.sort((first, second) => second.score - first.score)
+  if (candidates.length > CARD_CANDIDATE_LIMIT) {
+    candidates.length = CARD_CANDIDATE_LIMIT
+  }
+}
+
+const getMedian = (values: number[]): number => {
+  if (values.length === 0) {
+    return 0
+  }
+
+  const sorted = [...values].sort((first, second) => first - second)
+  const middle = Math.floor(sorted.length / 2)
+  return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle]
+}
+
+const getPlateauLength = (reveals: RevealSpan[], frameIndex: number): number => {
+  const plateau = reveals.find(
+    ({ plateau }) => plateau && plateau.start <= frameIndex && frameIndex <= plateau.end,
+  )?.plateau
+  return plateau ? plateau.end - plateau.start + 1 : 0
+}
+
+const classifyCells = (
+  cellCandidates: CardCandidate[][],
+  cellTracks: CellTrack[],
+  fusedFrameCounts: Uint8Array,
+): CellResult[] => {
+  const medianScore = getMedian(
+    cellCandidates.filter((candidates) => candidates.length > 0).map(([best]) => best.score),
+  )
+
+  return cellCandidates.map((candidates, cellIndex): CellResult => {
+    const reveals = cellTracks[cellIndex].reveals.map((reveal) => ({
+      ...reveal,
+      plateau: reveal.plateau && { ...reveal.plateau },
+    }))
+    const best = candidates[0]
+    if (!best) {
+      return {
+        status: "missing",
+        frameIndex: null,
+        score: 0,
+        candidates: [],
+        reveals,
+        fusedFrameCount: 0,
+        isManualOverride: false,
+      }
+    }
+
+    const isLowConfidence =
+      getPlateauLength(reveals, best.frameIndex) <= LOW_CONFIDENCE_MAX_PLATEAU_FRAMES ||
+      best.score < medianScore * LOW_CONFIDENCE_SCORE_RATIO
+
+    return {
+      status: isLowConfidence ? "low-confidence" : "revealed",
+      frameIndex: best.frameIndex,
+      score: best.score,
+      candidates: candidates.map((candidate) => ({ ...candidate })),
+      reveals,
+      fusedFrameCount: fusedFrameCounts[cellIndex],
+      isManualOverride: false,
+    }
+  })
+}
+
+const countFrameDiffs = (
+  currentPixels: Uint8ClampedArray,
+  baselinePixels: Uint8ClampedArray,
+  baselineThreshold: number,
+  motionThreshold: number,
+  previousPixels?: Uint8ClampedArray,
+): { baselineChanged: number; motionChanged: number } => {
+  let baselineChanged = 0
+  let motionChanged = 0
+
+  for (let offset = 0; offset < currentPixels.length; offset += 4) {
+    if (getBrightnessDiff(currentPixels, baselinePixels, offset) > baselineThreshold) {
+      baselineChanged += 1
+    }
+
+    if (previousPixels && getBrightnessDiff(currentPixels, previousPixels, offset) > motionThreshold) {
+      motionChanged += 1
+    }
+  }
+
+  return { baselineChanged, motionChanged }
+}
+
+export const isBaselineWithinActiveRange = (baselineRatio: number, options: ProcessingOptions): boolean =>
+  baselineRatio >= options.minBaselineRatio && baselineRatio <= options.maxBaselineRatio
+
+const findActiveStreakRange = (candidate: boolean[], options: ProcessingOptions): FrameRange | null => {
+  let streak = 0
+  let firstActive = -1
+  let lastActive = -1
+
+  for (let index = 0; index < candidate.length; index += 1) {
+    if (candidate[index]) {
+      streak += 1
+      if (streak >= options.minActiveStreak) {
+        const streakStart = index - streak + 1
+        if (firstActive === -1) {
+          firstActive = streakStart
+        }
+        lastActive = index
+      }
+    } else {
+      streak = 0
+    }
+  }
+
+  if (firstActive === -1 || lastActive === -1) {
+    return null
+  }
+
+  return {
+    start: Math.max(0, firstActive - options.marginFrames),
+    end: Math.min(candidate.length - 1, lastActive + options.marginFrames),
+  }
+}
+
+const detectActiveFrameRange = (metrics: FrameMetrics[], options: ProcessingOptions): FrameRange => {
+  if (metrics.length === 0) {
+    return { start: 0, end: 0 }
+  }
+
+  const strictCandidate = metrics.map(({ baselineRatio, motionRatio }) => {
+    return isBaselineWithinActiveRange(baselineRatio, options) && motionRatio >= options.minMotionRatio
+  })
+
+  const strictRange = findActiveStreakRange(strictCandidate, options)
+  if (strictRange) {
+    return strictRange
+  }
+
+  // Fallback: motion-only range helps when baseline-ratio heuristics are too strict
+  // (for example long idle at the beginning or unusual board state near the end).
+  const maxMotionRatio = metrics.reduce((max, metric) => Math.max(max, metric.motionRatio), 0)
+  const fallbackMotionThreshold = Math.max(options.minMotionRatio, maxMotionRatio * 0.35)
+  const fallbackBaselineThreshold = options.minBaselineRatio * 0.5
+  const motionCandidate = metrics.map(({ baselineRatio, motionRatio }) => {
+    return motionRatio >= fallbackMotionThreshold && baselineRatio >= fallbackBaselineThreshold
+  })
+  const motionRange = findActiveStreakRange(motionCandidate, options)
+  if (motionRange) {
+    return motionRange
+  }
+
+  // If all detection fails, keep everything to avoid returning an empty result.
+  return { start: 0, end: metrics.length - 1 }
+}
+
+const measureScanMotion = (
+  currentPixels: Uint8ClampedArray,
+  previousPixels: Uint8ClampedArray,
+  options: ProcessingOptions,
+): number => {
+  const { baselineChanged } = countFrameDiffs(
+    currentPixels,
+    previousPixels,
+    options.motionThreshold,
+    options.motionThreshold,
+  )
+  return baselineChanged / Math.max(1, currentPixels.length / 4)
+}
+
+type ScanSample = {
+  time: number
+  motionRatio: number
+  faceDownScore: number
+}
+
+// Seconds.
+type GameplaySegment = {
+  start: number
+  end: number
+}
+
+// Splits gameplay samples into runs at long pauses and keeps the run with the most gameplay samples.
+const findGameplayRun = (samples: ScanSample[], options: ProcessingOptions): ScanSample[] | null => {
+  let bestRun: ScanSample[] | null = null
+  let currentRun: ScanSample[] = []
+
+  for (const sample of samples) {
+    if (sample.faceDownScore < GAMEPLAY_MIN_FACE_DOWN_SCORE || sample.motionRatio < options.minMotionRatio) {
+      continue
+    }
+
+    const lastSample = currentRun.at(-1)
+    if (lastSample && sample.time - lastSample.time > MAX_GAMEPLAY_GAP_SECONDS) {
+      currentRun = []
+    }
+
+    currentRun.push(sample)
+    if (!bestRun || currentRun.length > bestRun.length) {
+      bestRun = currentRun
+    }
+  }
+
+  return bestRun
+}
+
+/*
+  The segment spans the busiest gameplay run, padded by one scan step on both sides because the
+  run really starts/ends somewhere between two samples. Without gameplay the whole video is kept.
+*/
+const locateGameplaySegment = (
+  samples: ScanSample[],
+  duration: number,
+  options: ProcessingOptions,
+): GameplaySegment => {
+  const scanStep = 1 / options.scanFps
+  const run = findGameplayRun(samples, options)
+  if (!run) {
+    return { start: 0, end: duration }
+  }
+
+  return {
+    start: Math.max(0, run[0].time - scanStep),
+    end: Math.min(duration, (run.at(-1)?.time ?? duration) + scanStep),
+  }
+}
+
+const compareBaselineCandidates = (first: ScanSample, second: ScanSample): number =>
+  second.faceDownScore - first.faceDownScore || first.motionRatio - second.motionRatio
+
+/*
+  Baseline candidates are calm face-down samples from both ends of the segment: the board before
+  the first flip and after the last one. Either end alone can be a popup, a reward screen or a
+  card mid-flip. Each side contributes its most face-down samples, the stillest first on ties.
+  - When no sample qualifies, the most face-down sample near the segment is the only candidate,
+    or the last sample when no frame shows the board at all.
+*/
+const rankBaselineCandidates = (
+  samples: ScanSample[],
+  segment: GameplaySegment,
+  options: ProcessingOptions,
+): ScanSample[] => {
+  const perSide = Math.max(BASELINE_CANDIDATES_PER_SIDE, options.baselineMedianFrames)
+  const middle = (segment.start + segment.end) / 2
+  const searchSamples = samples.filter(
+    ({ time }) => time >= segment.start - BASELINE_SEARCH_SECONDS && time <= segment.end + BASELINE_SEARCH_SECONDS,
+  )
+  const rankSide = (sideSamples: ScanSample[]): ScanSample[] =>
+    sideSamples
+      .filter(
+        ({ faceDownScore, motionRatio }) =>
+          faceDownScore >= BASELINE_MIN_FACE_DOWN_SCORE && motionRatio < options.minMotionRatio,
+      )
+      .sort(compareBaselineCandidates)
+      .slice(0, perSide)
+
+  // End first: the game usually returns to a face-down board, so it wins ties.
+  const candidates = [
+    ...rankSide(searchSamples.filter(({ time }) => time >= middle)),
+    ...rankSide(searchSamples.filter(({ time }) => time < middle)),
+  ]
+  if (candidates.length > 0) {
+    return candidates
+  }
+
+  const [fallback] = [...searchSamples].sort(compareBaselineCandidates)
+  return [fallback && fallback.faceDownScore > 0 ? fallback : samples[samples.length - 1]]
+}
+
+/*
+  The chosen candidate is the one most other candidates agree with (same board within
+  `minBaselineRatio`), weighted by its face-down score: a popup or a mid-flip frame only agrees
+  with itself. Its confidence is that face-down score times the share of agreeing candidates.
+*/
+const chooseBaseline = (
+  candidates: ScanSample[],
+  candidatePixels: Uint8ClampedArray[],
+  options: ProcessingOptions,
+): Omit<BaselineSelection, "isScanLayoutDetected"> => {
+  const agreeingCandidates = candidatePixels.map((pixels) =>
+    candidatePixels.flatMap((otherPixels, otherIndex) =>
+      measureFrame(pixels, otherPixels, undefined, options).baselineRatio < options.minBaselineRatio
+        ? [otherIndex]
+        : [],
+    ),
+  )
+
+  let bestIndex = 0
+  candidates.forEach(({ faceDownScore }, index) => {
+    const support = faceDownScore * agreeingCandidates[index].length
+    if (support > candidates[bestIndex].faceDownScore * agreeingCandidates[bestIndex].length) {
+      bestIndex = index
+    }
+  })
+
+  const best = candidates[bestIndex]
+  const medianMembers = [bestIndex, ...agreeingCandidates[bestIndex].filter((index) => index !== bestIndex)]
+
+  return {
+    time: best.time,
+    confidence: best.faceDownScore * (agreeingCandidates[bestIndex].length / candidates.length),
+    frameTimes: medianMembers.slice(0, options.baselineMedianFrames).map((index) => candidates[index].time),
+  }
+}
+
+// Per-channel median; calm frames that differ only by noise or a passing cursor agree on the board.
+const buildMedianImageData = (frames: ImageData[]): ImageData => {
+  if (frames.length === 1) {
+    return frames[0]
+  }
+
+  const { width, height } = frames[0]
+  const median = new ImageData(width, height)
+  const values = new Array<number>(frames.length)
+  const middle = Math.floor(frames.length / 2)
+
+  for (let offset = 0; offset < median.data.length; offset += 1) {
+    frames.forEach(({ data }, index) => {
+      values[index] = data[offset]
+    })
+    values.sort((first, second) => first - second)
+    median.data[offset] = values[middle]
+  }
+
+  return median
+}
+
+// Frames the overlay classifier rejected are left out of every tier but the last resort.
+const buildMergeFrameIndices = (
+  metrics: FrameMetrics[],
+  range: FrameRange,
+  options: ProcessingOptions,
+  rejectedFrameIndices: Set<number>,
+): number[] => {
+  const filtered: number[] = []
+
+  // Prefer frames with board-like baseline difference; this removes overlays/transitions.
+  for (let frameIndex = range.start; frameIndex <= range.end; frameIndex += 1) {
+    if (rejectedFrameIndices.has(frameIndex)) {
+      continue
+    }
+
+    if (isBaselineWithinActiveRange(metrics[frameIndex].baselineRatio, options)) {
+      filtered.push(frameIndex)
+    }
+  }
+
+  if (filtered.length > 0) {
+    return filtered
+  }
+
+  const motionFallback: number[] = []
+  const maxMotionRatio = metrics
+    .slice(range.start, range.end + 1)
+    .reduce((max, metric) => Math.max(max, metric.motionRatio), 0)
+  const motionThreshold = Math.max(options.minMotionRatio, maxMotionRatio * 0.35)
+  const baselineThreshold = options.minBaselineRatio * 0.5
+  for (let frameIndex = range.start; frameIndex <= range.end; frameIndex += 1) {
+    if (rejectedFrameIndices.has(frameIndex)) {
+      continue
+    }
+
+    if (metrics[frameIndex].motionRatio >= motionThreshold && metrics[frameIndex].baselineRatio >= baselineThreshold) {
+      motionFallback.push(frameIndex)
+    }
+  }
+
+  if (motionFallback.length > 0) {
+    return motionFallback
+  }
+
+  // Safety fallback: if filtering is too strict for a specific recording, merge the whole active range.
+  const fullRange: number[] = []
+  for (let frameIndex = range.start; frameIndex <= range.end; frameIndex += 1) {
+    fullRange.push(frameIndex)
+  }
+
+  const unrejectedRange = fullRange.filter((frameIndex) => !rejectedFrameIndices.has(frameIndex))
+  return unrejectedRange.length > 0 ? unrejectedRange : fullRange
+}
+
+// Output frames feed the merge; smaller analysis frames feed the whole-frame metrics.
+export const createFrameContexts = (videoWidth: number, videoHeight: number, options: ProcessingOptions) => {
+  const analysisScaleDown = Math.min(options.scaleDown, options.analysisScaleDown)
+
+  return {
+    outputCtx: createCanvasContext(
+      Math.max(1, Math.floor(videoWidth * options.scaleDown)),
+      Math.max(1, Math.floor(videoHeight * options.scaleDown)),
+    ),
+    analysisCtx: createCanvasContext(
+      Math.max(1, Math.floor(videoWidth * analysisScaleDown)),
+      Math.max(1, Math.floor(videoHeight * analysisScaleDown)),
+    ),
+  }
+}
+
+export const measureFrame = (
+  currentPixels: Uint8ClampedArray,
+  baselinePixels: Uint8ClampedArray,
+  previousPixels: Uint8ClampedArray | undefined,
+  options: ProcessingOptions,
+): FrameMetrics => {
+  const pixelCount = Math.max(1, currentPixels.length / 4)
+  const { baselineChanged, motionChanged } = countFrameDiffs(
+    currentPixels,
+    baselinePixels,
+    options.threshold,
+    options.motionThreshold,
+    previousPixels,
+  )
+
+  return {
+    baselineRatio: baselineChanged / pixelCount,
+    motionRatio: previousPixels ? motionChanged / pixelCount : 0,
+  }
+}
+
+type PlateauFrame = {
+  frameIndex: number
+  score: number
+  crop: ImageData
+}
+
+/*
+  Flip tracking of one cell. A reveal opens when the cell stops matching the face-down baseline
+  and closes when it matches again; inside it, consecutive still frames form plateaus (a rotating
+  card moves too much, a skipped frame breaks the run). Only the middle frame of the longest
+  plateau becomes the reveal's candidate, so half-rotated cards at either end are never picked.
+*/
+type CellTrack = {
+  // The last entry is still open while `isRevealOpen` is set.
+  reveals: RevealSpan[]
+  isRevealOpen: boolean
+  // Current plateau; `frames` holds every `stride`-th frame from the first one that may still be
+  // fused around its middle.
+  plateau: { range: FrameRange; frames: PlateauFrame[]; stride: number } | null
+  // Frames to fuse from the longest plateau of the open reveal so far, middle frame first.
+  revealFrames: PlateauFrame[]
+}
+
+export type CellMergeState = {
+  options: ProcessingOptions
+  cardLayout: CardLayoutPercent
+  isCardLayoutDetected: boolean
+  width: number
+  gridRegions: GridCellRegion[]
+  baselinePixels: Uint8ClampedArray
+  result: ImageData
+  bestCellScores: Float32Array
+  // Frames fused into the kept reveal of each cell.
+  fusedFrameCounts: Uint8Array
+  // Keep top candidates per cell (one per reveal) so fallback can fill partial misses.
+  cellCandidates: CardCandidate[][]
+  cellTracks: CellTrack[]
+  // Cell crops of the current candidates by frame index; only kept when diagnostics are collected.
+  candidateCrops: Map<number, ImageData>[] | null
+  previousPixels: Uint8ClampedArray | null
+  previousFrameIndex: number | null
+}
+
+type CreateCellMergeStateArgs = {
+  baselineData: ImageData
+  options: ProcessingOptions
+  cardLayout: CardLayoutPercent
+  isCardLayoutDetected: boolean
+  collectDiagnostics: boolean
+}
+
+export const createCellMergeState = ({
+  baselineData,
+  options,
+  cardLayout,
+  isCardLayoutDetected,
+  collectDiagnostics,
+}: CreateCellMergeStateArgs): CellMergeState => {
+  const result = new ImageData(baselineData.width, baselineData.height)
+  result.data.set(baselineData.data)
+  const gridRegions = buildGridRegions(baselineData.width, baselineData.height, cardLayout)
+
+  return {
+    options,
+    cardLayout,
+    isCardLayoutDetected,
+    width: baselineData.width,
+    gridRegions,
+    baselinePixels: baselineData.data,
+    result,
+    bestCellScores: new Float32Array(gridRegions.length).fill(-1),
+    fusedFrameCounts: new Uint8Array(gridRegions.length),
+    cellCandidates: Array.from({ length: gridRegions.length }, () => []),
+    cellTracks: Array.from({ length: gridRegions.length }, () => ({
+      reveals: [],
+      isRevealOpen: false,
+      plateau: null,
+      revealFrames: [],
+    })),
+    candidateCrops: collectDiagnostics ? Array.from({ length: gridRegions.length }, () => new Map()) : null,
+    previousPixels: null,
+    previousFrameIndex: null,
+  }
+}
+
+const getPlateauMiddle = ({ start, end }: FrameRange): number => Math.floor((start + end) / 2)
+
+const extendPlateau = (track: CellTrack, frame: PlateauFrame, fusedFrameCount: number): void => {
+  if (!track.plateau) {
+    track.plateau = { range: { start: frame.frameIndex, end: frame.frameIndex }, frames: [frame], stride: 1 }
+    return
+  }
+
+  const { plateau } = track
+  const { range } = plateau
+  range.end = frame.frameIndex
+  if ((frame.frameIndex - range.start) % plateau.stride === 0) {
+    plateau.frames.push(frame)
+  }
+
+  // The middle only moves forward, so frames before the window fused around it are never needed again.
+  const firstFusedFrameIndex = getPlateauMiddle(range) - Math.ceil(fusedFrameCount / 2) * plateau.stride
+  while (plateau.frames.length > 1 && plateau.frames[0].frameIndex < firstFusedFrameIndex) {
+    plateau.frames.shift()
+  }
+
+  if (plateau.frames.length > Math.max(PLATEAU_FRAME_LIMIT, fusedFrameCount * 2)) {
+    plateau.stride *= 2
+    plateau.frames = plateau.frames.filter(({ frameIndex }) => (frameIndex - range.start) % plateau.stride === 0)
+  }
+}
+
+// Longer plateaus win; equally long ones keep the sharper middle frame.
+const closePlateau = (track: CellTrack, fusedFrameCount: number): void => {
+  const { plateau } = track
+  const reveal = track.reveals.at(-1)
+  track.plateau = null
+  if (!plateau || !reveal) {
+    return
+  }
+
+  const middle = getPlateauMiddle(plateau.range)
+  // Closest to the middle first; on ties the earlier frame, since sort is stable.
+  const fusedFrames = [...plateau.frames]
+    .sort((first, second) => Math.abs(first.frameIndex - middle) - Math.abs(second.frameIndex - middle))
+    .slice(0, fusedFrameCount)
+  const length = plateau.range.end - plateau.range.start
+  const bestLength = reveal.plateau ? reveal.plateau.end - reveal.plateau.start : -1
+  const bestScore = track.revealFrames[0]?.score ?? -1
+  if (length > bestLength || (length === bestLength && fusedFrames[0].score > bestScore)) {
+    reveal.plateau = { ...plateau.range }
+    track.revealFrames = fusedFrames
+  }
+}
+
+const closeReveal = (state: CellMergeState, cellIndex: number): void => {
+  const track = state.cellTracks[cellIndex]
+  closePlateau(track, state.options.fusedFrameCount)
+  track.isRevealOpen = false
+
+  const frames = track.revealFrames
+  track.revealFrames = []
+  if (frames.length === 0) {
+    return
+  }
+
+  // Fusion is only worth it when the reveal is kept as a candidate crop or in the result.
+  const [frame] = frames
+  let fusedCrop: ImageData | null = null
+  const getFusedCrop = (): ImageData => (fusedCrop ??= fuseCellFrames(frames.map(({ crop }) => crop)))
+
+  const candidates = state.cellCandidates[cellIndex]
+  pushCardCandidate(candidates, { frameIndex: frame.frameIndex, score: frame.score })
+  if (state.candidateCrops) {
+    const crops = state.candidateCrops[cellIndex]
+    const candidateFrames = new Set(candidates.map((candidate) => candidate.frameIndex))
+    if (candidateFrames.has(frame.frameIndex)) {
+      crops.set(frame.frameIndex, getFusedCrop())
+    }
+
+    crops.forEach((_, cropFrameIndex) => {
+      if (!candidateFrames.has(cropFrameIndex)) {
+        crops.delete(cropFrameIndex)
+      }
+    })
+  }
+
+  if (frame.score > state.bestCellScores[cellIndex]) {
+    state.bestCellScores[cellIndex] = frame.score
+    state.fusedFrameCounts[cellIndex] = frames.length
+    pasteImageData(getFusedCrop(), state.result.data, state.width, state.gridRegions[cellIndex].copyRect)
+  }
+}
+
+// Closes the reveals still open at the end (or at a live preview) on a copy of the tracking state,
+// so a preview does not cut a plateau that later frames continue. Pixels go into `state.result`.
+const closeOpenReveals = (state: CellMergeState): CellMergeState => {
+  const closedState: CellMergeState = {
+    ...state,
+    bestCellScores: state.bestCellScores.slice(),
+    fusedFrameCounts: state.fusedFrameCounts.slice(),
+    cellCandidates: state.cellCandidates.map((candidates) => candidates.map((candidate) => ({ ...candidate }))),
+    cellTracks: state.cellTracks.map((track) => ({
+      ...track,
+      reveals: track.reveals.map((reveal) => ({ ...reveal, plateau: reveal.plateau && { ...reveal.plateau } })),
+      plateau: track.plateau && {
+        ...track.plateau,
+        range: { ...track.plateau.range },
+        frames: [...track.plateau.frames],
+      },
+    })),
+    candidateCrops: state.candidateCrops && state.candidateCrops.map((crops) => new Map(crops)),
+  }
+
+  closedState.cellTracks.forEach((track, cellIndex) => {
+    if (track.isRevealOpen) {
+      closeReveal(closedState, cellIndex)
+    }
+  })
+
+  return closedState
+}
+
+// Card-aware merge step: score every cell of one frame and advance its flip tracking.
+// Frames must arrive in ascending order; skipped frame indices end the current plateaus.
+export const mergeFrameIntoCells = (
+  state: CellMergeState,
+  frameIndex: number,
+  currentPixels: Uint8ClampedArray,
+  frameMotionRatio: number,
+): void => {
+  const { options, width, gridRegions, baselinePixels, cellTracks, previousPixels } = state
+  const isConsecutive = state.previousFrameIndex === frameIndex - 1
+
+  for (let cellIndex = 0; cellIndex < gridRegions.length; cellIndex += 1) {
+    const { evalRect, evalPixelCount, copyRect } = gridRegions[cellIndex]
+    let changedPixels = 0
+    let brightnessSum = 0
+    let brightnessSqSum = 0
+    let localMotionPixels = 0
+
+    for (let y = evalRect.top; y < evalRect.bottom; y += 1) {
+      for (let x = evalRect.left; x < evalRect.right; x += 1) {
+        const offset = (y * width + x) * 4
+        const currentBrightness = (currentPixels[offset] + currentPixels[offset + 1] + currentPixels[offset + 2]) / 3
+
+        if (getBrightnessDiff(currentPixels, baselinePixels, offset) > options.threshold) {
+          changedPixels += 1
+        }
+
+        if (previousPixels && getBrightnessDiff(currentPixels, previousPixels, offset) > options.motionThreshold) {
+          localMotionPixels += 1
+        }
+
+        brightnessSum += currentBrightness
+        brightnessSqSum += currentBrightness * currentBrightness
+      }
+    }
+
+    const track = cellTracks[cellIndex]
+    const changedRatio = changedPixels / evalPixelCount
+    if (changedRatio < options.cardMinDiffRatio) {
+      // Face-down (again): not enough revealed content in this cell.
+      if (track.isRevealOpen) {
+        closeReveal(state, cellIndex)
+      }
+      continue
+    }
+
+    const openReveal = track.isRevealOpen ? track.reveals.at(-1) : undefined
+    if (openReveal) {
+      openReveal.end = frameIndex
+    } else {
+      track.reveals.push({ start: frameIndex, end: frameIndex, plateau: null })
+      track.isRevealOpen = true
+    }
+
+    const localMotionRatio = previousPixels ? localMotionPixels / evalPixelCount : frameMotionRatio
+    if (localMotionRatio > options.cardMaxLocalMotionRatio || !isConsecutive) {
+      // Rotating (transition blur) or a gap in the sampled frames: the plateau ends here.
+      closePlateau(track, options.fusedFrameCount)
+      if (localMotionRatio > options.cardMaxLocalMotionRatio) {
+        continue
+      }
+    }
+
+    const meanBrightness = brightnessSum / evalPixelCount
+    const brightnessVariance = Math.max(0, brightnessSqSum / evalPixelCount - meanBrightness * meanBrightness)
+    const motionPenalty = 1 / (1 + localMotionRatio * 25)
+    // Higher variance often means richer face-up card detail (text/icon), not a flat back-face.
+    const score = changedRatio * brightnessVariance * motionPenalty
+
+    extendPlateau(
+      track,
+      { frameIndex, score, crop: cropImageData(currentPixels, width, copyRect) },
+      options.fusedFrameCount,
+    )
+  }
+
+  state.previousPixels = currentPixels
+  state.previousFrameIndex = frameIndex
+}
+
+// Everything the merge itself knows; callers add the frame-level diagnostics.
+export type CellMergeResult = Omit<
+  AnalysisResult,
+  | "videoDuration"
+  | "baseline"
+  | "firstFrameTime"
+  | "frameTimes"
+  | "frameMetrics"
+  | "activeRange"
+  | "mergeFrameIndices"
+  | "rejectedFrames"
+  | "timings"
+>
+
+/*
+  Final composition:
+  - Close the reveals still open, so cards that stay face-up until the end get their candidate.
+  - When earlier frames can be re-read, fill unresolved card pixels from fallback candidates
+    to avoid half-card artifacts.
+  - Sharpen, encode, classify every cell (revealed / low confidence / missing) and match the
+    revealed card faces into pairs.
+*/
+export const finalizeCellMerge = async (
+  state: CellMergeState,
+  outputCtx: OffscreenCanvasRenderingContext2D,
+  getFramePixels?: (frameIndex: number) => Promise<Uint8ClampedArray>,
+): Promise<CellMergeResult> => {
+  const {
+    options,
+    cardLayout,
+    isCardLayoutDetected,
+    width,
+    gridRegions,
+    baselinePixels,
+    cellCandidates,
+    cellTracks,
+    fusedFrameCounts,
+    candidateCrops,
+    result,
+  } = closeOpenReveals(state)
+  const resultPixels = result.data
+  const outputCanvas = outputCtx.canvas
+
+  if (getFramePixels) {
+    for (let cellIndex = 0; cellIndex < gridRegions.length; cellIndex += 1) {
+      const candidates = cellCandidates[cellIndex]
+      if (candidates.length < 2) {
+        continue
+      }
+
+      const { copyRect } = gridRegions[cellIndex]
+      for (let fallbackIndex = 1; fallbackIndex < candidates.length; fallbackIndex += 1) {
+        const fallbackPixels = await getFramePixels(candidates[fallbackIndex].frameIndex)
+        for (let y = copyRect.top; y < copyRect.bottom; y += 1) {
+          for (let x = copyRect.left; x < copyRect.right; x += 1) {
+            const offset = (y * width + x) * 4
+            if (getBrightnessDiff(resultPixels, baselinePixels, offset) > options.threshold) {
+              continue
+            }
+
+            if (getBrightnessDiff(fallbackPixels, baselinePixels, offset) <= options.threshold) {
+              continue
+            }
+
+            resultPixels[offset] = fallbackPixels[offset]
+            resultPixels[offset + 1] = fallbackPixels[offset + 1]
+            resultPixels[offset + 2] = fallbackPixels[offset + 2]
+            resultPixels[offset + 3] = 255
+          }
+        }
+      }
+    }
+  }
+
+  applySharpen(result, outputCanvas.width, outputCanvas.height, options.sharpenStrength)
+  outputCtx.putImageData(result, 0, 0)
+
+  const cells = classifyCells(cellCandidates, cellTracks, fusedFrameCounts)
+  const pairableCells = cells.flatMap(({ status }, cellIndex) => (status === "missing" ? [] : [cellIndex]))
+
+  return {
+    image: await outputCanvas.convertToBlob({ type: "image/png" }),
+    frameWidth: outputCanvas.width,
+    frameHeight: outputCanvas.height,
+    cellRects: gridRegions.map(({ copyRect }) => copyRect),
+    evalRects: gridRegions.map(({ evalRect }) => evalRect),
+    cells,
+    pairs: matchCardPairs(resultPixels, width, gridRegions, pairableCells),
+    diagnostics: candidateCrops && {
+      baselineImage: await encodeImageData(new ImageData(new Uint8ClampedArray(baselinePixels), width, result.height)),
+      candidateImages: await Promise.all(
+        cellCandidates.map((candidates, cellIndex) =>
+          Promise.all(
+            candidates.flatMap(({ frameIndex }) => {
+              const crop = candidateCrops[cellIndex].get(frameIndex)
+              return crop ? [encodeImageData(crop)] : []
+            }),
+          ),
+        ),
+      ),
+    },
+    options,
+    cardLayout,
+    isCardLayoutDetected,
+  }
+}
+
+export const analyzeVideoFrames = async ({
+  duration,
+  videoWidth,
+  videoHeight,
+  readFrame,
+  options,
+  cardLayout,
+  autoDetectLayout,
+  collectDiagnostics,
+  onProgress,
+}: AnalyzeVideoFramesArgs): Promise<AnalysisResult> => {
+  const startedAt = performance.now()
+  if (!Number.isFinite(duration) || duration <= 0) {
+    throw new Error("Unable to determine the video duration")
+  }
+
+  // Clamp requested timestamps so the decoder never seeks past the end of the video.
+  const readFrameAt = (requestedTime: number): Promise<DecodedFrame> => {
+    const maxTime = Math.max(duration - 0.001, 0)
+    return readFrame(Math.min(Math.max(requestedTime, 0), maxTime))
+  }
+
+  const { analysisCtx, outputCtx } = createFrameContexts(videoWidth, videoHeight, options)
+  const outputCanvas = outputCtx.canvas
+  const analysisCanvas = analysisCtx.canvas
+
+  const drawFrame = async (time: number, contexts: OffscreenCanvasRenderingContext2D[]): Promise<void> => {
+    const frame = await readFrameAt(time)
+    try {
+      contexts.forEach((ctx) => ctx.drawImage(frame, 0, 0, ctx.canvas.width, ctx.canvas.height))
+    } finally {
+      frame.close()
+    }
+  }
+
+  // The segment length is only known after the scan, so the scan reports progress as if the whole
+  // video were the segment; the total only shrinks afterwards, so progress never moves backwards.
+  const scanCount = Math.max(1, Math.ceil(duration * options.scanFps))
+  const scanProgressFrames = scanCount + Math.max(1, Math.floor(duration * options.fps)) * 2
+  onProgress?.(0, scanProgressFrames)
+
+  // The face-down score is only meaningful on the real card cells, so find the board before scanning.
+  let scanLayout: CardLayoutPercent | null = null
+  for (const position of autoDetectLayout ? LAYOUT_PROBE_POSITIONS : []) {
+    await drawFrame(position * duration, [analysisCtx])
+    scanLayout = detectCardLayout(
+      analysisCtx.getImageData(0, 0, analysisCanvas.width, analysisCanvas.height),
+      cardLayout,
+    )
+    if (scanLayout) {
+      break
+    }
+  }
+
+  // Phase 0: coarse scan over the whole video; only the previous sample is kept in memory.
+  const scanEvalRects = buildGridRegions(analysisCanvas.width, analysisCanvas.height, scanLayout ?? cardLayout).map(
+    ({ evalRect }) => evalRect,
+  )
+  const scanSamples: ScanSample[] = new Array(scanCount)
+  let previousScanData: ImageData | null = null
+
+  for (let scanIndex = 0; scanIndex < scanCount; scanIndex += 1) {
+    const time = scanIndex / options.scanFps
+    await drawFrame(time, [analysisCtx])
+    const currentData = analysisCtx.getImageData(0, 0, analysisCanvas.width, analysisCanvas.height)
+    scanSamples[scanIndex] = {
+      time,
+      // Measured against the previous sample only; the baseline is not known yet.
+      motionRatio: previousScanData ? measureScanMotion(currentData.data, previousScanData.data, options) : 0,
+      faceDownScore: scoreFaceDownBoard(currentData.data, analysisCanvas.width, scanEvalRects),
+    }
+    previousScanData = currentData
+
+    const scannedFrames = scanIndex + 1
+    if (shouldEmitProgress(scannedFrames, scanCount)) {
+      onProgress?.(scannedFrames, scanProgressFrames)
+    }
+  }
+
+  const segment = locateGameplaySegment(scanSamples, duration, options)
+  const baselineCandidates = rankBaselineCandidates(scanSamples, segment, options)
+  const firstFrameTime = segment.start
+  const toFrameTime = (frameIndex: number): number => firstFrameTime + frameIndex / options.fps
+
+  const frameCount = Math.max(1, Math.floor((segment.end - segment.start) * options.fps))
+  const totalProgressFrames = scanCount + frameCount * 2
+
+  // The face-down baseline is the "reference board" that tells true card reveals apart.
+  const candidatePixels: Uint8ClampedArray[] = []
+  for (const candidate of baselineCandidates) {
+    await drawFrame(candidate.time, [analysisCtx])
+    candidatePixels.push(analysisCtx.getImageData(0, 0, analysisCanvas.width, analysisCanvas.height).data)
+  }
+
+  const baseline = {
+    ...chooseBaseline(baselineCandidates, candidatePixels, options),
+    isScanLayoutDetected: Boolean(scanLayout),
+  }
+  const analysisBaselineFrames: ImageData[] = []
+  const baselineFrames: ImageData[] = []
+  for (const time of baseline.frameTimes) {
+    await drawFrame(time, [analysisCtx, outputCtx])
+    analysisBaselineFrames.push(analysisCtx.getImageData(0, 0, analysisCanvas.width, analysisCanvas.height))
+    baselineFrames.push(outputCtx.getImageData(0, 0, outputCanvas.width, outputCanvas.height))
+  }
+
+  const analysisBaselineData = buildMedianImageData(analysisBaselineFrames)
+  const baselineData = buildMedianImageData(baselineFrames)
+
+  // The face-down baseline is the cleanest view of the board; fall back to the probed board, then the configured layout.
+  const detectedLayout = autoDetectLayout ? (detectCardLayout(analysisBaselineData, cardLayout) ?? scanLayout) : null
+  const mergeLayout = detectedLayout ?? cardLayout
+  const analysisRegions = buildGridRegions(analysisCanvas.width, analysisCanvas.height, mergeLayout)
+  const classifyOverlay = createOverlayClassifier({
+    baselineData: analysisBaselineData,
+    cellRects: analysisRegions.map(({ copyRect }) => copyRect),
+    evalRects: analysisRegions.map(({ evalRect }) => evalRect),
+    threshold: options.threshold,
+  })
+
+  // Phase 1: analyze frame metrics inside the segment to detect the active card-flip range.
+  const frameMetrics: FrameMetrics[] = new Array(frameCount)
+  const rejectedFrames: RejectedFrame[] = []
+  let previousFrameData: ImageData | null = null
+
+  for (let frameIndex = 0; frameIndex < frameCount; frameIndex += 1) {
+    await drawFrame(toFrameTime(frameIndex), [analysisCtx])
+    const currentData = analysisCtx.getImageData(0, 0, analysisCanvas.width, analysisCanvas.height)
+    frameMetrics[frameIndex] = measureFrame(
+      currentData.data,
+      analysisBaselineData.data,
+      previousFrameData?.data,
+      options,
+    )
+    const overlay = classifyOverlay(currentData.data)
+    if (overlay) {
+      rejectedFrames.push({ frameIndex, reason: overlay })
+    }
+    previousFrameData = currentData
+
+    const analyzedFrames = frameIndex + 1
+    if (shouldEmitProgress(analyzedFrames, frameCount)) {
+      onProgress?.(scanCount + analyzedFrames, totalProgressFrames)
+    }
+  }
+
+  const activeRange = detectActiveFrameRange(frameMetrics, options)
+  const mergeFrameIndices = buildMergeFrameIndices(
+    frameMetrics,
+    activeRange,
+    options,
+    new Set(rejectedFrames.map(({ frameIndex }) => frameIndex)),
+  )
+  const analysisEndedAt = performance.now()
+
+  const mergeFrameCount = mergeFrameIndices.length
+
+  // Phase 2: card-aware merge (one cell per card of the layout grid). Pick the sharpest revealed state per card.
+  const mergeState = createCellMergeState({
+    baselineData,
+    options,
+    cardLayout: mergeLayout,
+    isCardLayoutDetected: Boolean(detectedLayout),
+    collectDiagnostics,
+  })
+
+  for (let mergeIndex = 0; mergeIndex < mergeFrameCount; mergeIndex += 1) {
+    const frameIndex = mergeFrameIndices[mergeIndex]
+    await drawFrame(toFrameTime(frameIndex), [outputCtx])
+    const currentData = outputCtx.getImageData(0, 0, outputCanvas.width, outputCanvas.height)
+    mergeFrameIntoCells(mergeState, frameIndex, currentData.data, frameMetrics[frameIndex].motionRatio)
+
+    const activeProgress = mergeIndex + 1
+    if (shouldEmitProgress(activeProgress, mergeFrameCount)) {
+      const mergeProgressFrames = Math.max(1, Math.round((activeProgress / mergeFrameCount) * frameCount))
+      onProgress?.(scanCount + frameCount + mergeProgressFrames, totalProgressFrames)
+    }
+  }
+
+  const mergeEndedAt = performance.now()
+
+  // Fill unresolved card pixels from fallback candidates to avoid half-card artifacts.
+  // The cache is small and evicts the oldest frame, so memory does not grow with the candidate count.
+  const framePixelCache = new Map<number, Uint8ClampedArray>()
+  const getFramePixels = async (frameIndex: number): Promise<Uint8ClampedArray> => {
+    const cached = framePixelCache.get(frameIndex)
+    if (cached) {
+      return cached
+    }
+
+    await drawFrame(toFrameTime(frameIndex), [outputCtx])
+    const framePixels = outputCtx.getImageData(0, 0, outputCanvas.width, outputCanvas.height).data
+    if (framePixelCache.size >= FALLBACK_FRAME_CACHE_LIMIT) {
+      const [oldestFrameIndex] = framePixelCache.keys()
+      framePixelCache.delete(oldestFrameIndex)
+    }
+    framePixelCache.set(frameIndex, framePixels)
+    return framePixels
+  }
+
+  const mergeResult = await finalizeCellMerge(mergeState, outputCtx, getFramePixels)
+  onProgress?.(totalProgressFrames, totalProgressFrames)
+  const endedAt = performance.now()
+
+  return {
+    ...mergeResult,
+    videoDuration: duration,
+    baseline,
+    firstFrameTime,
+    frameTimes: null,
+    frameMetrics,
+    activeRange,
+    mergeFrameIndices,
+    rejectedFrames,
+    timings: {
+      analysisMs: analysisEndedAt - startedAt,
+      mergeMs: mergeEndedAt - analysisEndedAt,
+      finalizeMs: endedAt - mergeEndedAt,
+      totalMs: endedAt - startedAt,
+    },
+  }
+}
@@ -0,0 +1,62 @@
+import { createVideoFrameProvider } from "./videoFrameProvider"
+
+export type CalibrationFrame = {
+  imageUrl: string
+  width: number
+  height: number
+  // Set when the frame comes from a video file, so another timestamp can be picked.
+  duration?: number
+  time?: number
+}
+
+const renderFrameToDataUrl = (frame: CanvasImageSource, width: number, height: number): string => {
+  const canvas = document.createElement("canvas")
+  canvas.width = width
+  canvas.height = height
+
+  const ctx = canvas.getContext("2d")
+  if (!ctx) {
+    throw new Error("Canvas 2D context is not available")
+  }
+
+  ctx.drawImage(frame, 0, 0, width, height)
+  return canvas.toDataURL("image/png")
+}
+
+// Grab the frame currently shown by a playing video element (the live share preview).
+export const captureVideoElementFrame = (video: HTMLVideoElement): CalibrationFrame => {
+  if (video.readyState < HTMLMediaElement.HAVE_CURRENT_DATA || video.videoWidth === 0) {
+    throw new Error("The shared window has no frame yet")
+  }
+
+  return {
+    imageUrl: renderFrameToDataUrl(video, video.videoWidth, video.videoHeight),
+    width: video.videoWidth,
+    height: video.videoHeight,
+  }
+}
+
+// Decode one frame of a recording; defaults to the middle, where the board is usually on screen.
+export const captureVideoFileFrame = async (blob: Blob, time?: number): Promise<CalibrationFrame> => {
+  const provider = await createVideoFrameProvider(blob)
+
+  try {
+    const duration = Number.isFinite(provider.duration) ? provider.duration : 0
+    const frameTime = Math.min(Math.max(time ?? duration / 2, 0), Math.max(duration - 0.001, 0))
+    const frame = await provider.readFrame(frameTime)
+
+    try {
+      return {
+        imageUrl: renderFrameToDataUrl(frame, provider.width, provider.height),
+        width: provider.width,
+        height: provider.height,
+        duration,
+        time: frameTime,
+      }
+    } finally {
+      frame.close()
+    }
+  } finally {
+    provider.close()
+  }
+}
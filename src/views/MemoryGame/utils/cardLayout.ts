@@ -0,0 +1,141 @@
+/*
+  Card layout helpers
+
+  A `CardLayoutPercent` places a `cols` x `rows` board inside a frame as fractions of the frame
+  size: the top-left card corner, one card's size and the gaps between neighbouring cards.
+  The calibration tool edits the board through its outer bounds and the size of one card, so
+  these helpers convert between both descriptions.
+*/
+export const DEFAULT_CARD_GRID_SIZE: CardGridSize = { cols: 8, rows: 3 }
+
+// Every dimension needs at least two cards so gaps are defined.
+export const CARD_GRID_SIZE_LIMITS = { min: 2, max: 12 }
+
+// Tuned for the default game window scale.
+export const DEFAULT_CARD_LAYOUT_PERCENT: CardLayoutPercent = {
+  ...DEFAULT_CARD_GRID_SIZE,
+  left: 0.07525,
+  top: 0.2295,
+  cardWidth: 0.092,
+  cardHeight: 0.22425,
+  gapX: 0.01625,
+  gapY: 0.02775,
+}
+
+// Smallest card size the calibration handles can produce, as a fraction of the frame.
+const MIN_CARD_SIZE = 0.005
+
+const clamp = (value: number, min: number, max: number): number => Math.max(min, Math.min(value, max))
+
+const isValidGridDimension = (value: unknown): boolean =>
+  typeof value === "number" &&
+  Number.isInteger(value) &&
+  value >= CARD_GRID_SIZE_LIMITS.min &&
+  value <= CARD_GRID_SIZE_LIMITS.max
+
+// Cards come in pairs, so the board needs an even card count.
+export const isValidCardGridSize = (grid: CardGridSize): boolean =>
+  isValidGridDimension(grid.cols) && isValidGridDimension(grid.rows) && (grid.cols * grid.rows) % 2 === 0
+
+export const isValidCardLayoutPercent = (layout: CardLayoutPercent): boolean => {
+  if (!isValidCardGridSize(layout)) {
+    return false
+  }
+
+  const values = [layout.left, layout.top, layout.cardWidth, layout.cardHeight, layout.gapX, layout.gapY]
+  if (!values.every((value) => typeof value === "number" && Number.isFinite(value))) {
+    return false
+  }
+
+  if (layout.cardWidth <= 0 || layout.cardHeight <= 0 || layout.gapX < 0 || layout.gapY < 0) {
+    return false
+  }
+
+  const { right, bottom } = getCardLayoutBounds(layout)
+  return layout.left >= 0 && layout.top >= 0 && right <= 1 && bottom <= 1
+}
+
+export const getCardLayoutBounds = (layout: CardLayoutPercent): Rect => ({
+  left: layout.left,
+  top: layout.top,
+  right: layout.left + layout.cols * layout.cardWidth + (layout.cols - 1) * layout.gapX,
+  bottom: layout.top + layout.rows * layout.cardHeight + (layout.rows - 1) * layout.gapY,
+})
+
+// Split one board dimension into `count` cards keeping the previous card/gap proportion.
+const splitSpan = (span: number, count: number, cardSize: number, gap: number) => {
+  const cardShare = cardSize / Math.max(Number.EPSILON, cardSize + gap)
+  const pitch = span / (count - 1 + cardShare)
+  const nextCardSize = Math.max(MIN_CARD_SIZE, pitch * cardShare)
+
+  return { cardSize: nextCardSize, gap: Math.max(0, (span - count * nextCardSize) / (count - 1)) }
+}
+
+// Move the board's outer edges (corner handles); cards and gaps scale together.
+export const fitCardLayoutToBounds = (layout: CardLayoutPercent, bounds: Rect): CardLayoutPercent => {
+  const left = clamp(Math.min(bounds.left, bounds.right), 0, 1)
+  const right = clamp(Math.max(bounds.left, bounds.right), 0, 1)
+  const top = clamp(Math.min(bounds.top, bounds.bottom), 0, 1)
+  const bottom = clamp(Math.max(bounds.top, bounds.bottom), 0, 1)
+  const columns = splitSpan(
+    Math.max(right - left, layout.cols * MIN_CARD_SIZE),
+    layout.cols,
+    layout.cardWidth,
+    layout.gapX,
+  )
+  const rows = splitSpan(
+    Math.max(bottom - top, layout.rows * MIN_CARD_SIZE),
+    layout.rows,
+    layout.cardHeight,
+    layout.gapY,
+  )
+
+  return {
+    cols: layout.cols,
+    rows: layout.rows,
+    left,
+    top,
+    cardWidth: columns.cardSize,
+    cardHeight: rows.cardSize,
+    gapX: columns.gap,
+    gapY: rows.gap,
+  }
+}
+
+// Resize the first card (gap handles) inside fixed outer bounds; the gaps absorb the difference.
+export const setCardLayoutCardSize = (
+  layout: CardLayoutPercent,
+  cardSize: { cardWidth?: number; cardHeight?: number },
+): CardLayoutPercent => {
+  const bounds = getCardLayoutBounds(layout)
+  const next = { ...layout }
+
+  if (cardSize.cardWidth !== undefined) {
+    const maxCardWidth = (bounds.right - bounds.left) / layout.cols
+    next.cardWidth = clamp(cardSize.cardWidth, MIN_CARD_SIZE, maxCardWidth)
+    next.gapX = Math.max(0, (bounds.right - bounds.left - layout.cols * next.cardWidth) / (layout.cols - 1))
+  }
+
+  if (cardSize.cardHeight !== undefined) {
+    const maxCardHeight = (bounds.bottom - bounds.top) / layout.rows
+    next.cardHeight = clamp(cardSize.cardHeight, MIN_CARD_SIZE, maxCardHeight)
+    next.gapY = Math.max(0, (bounds.bottom - bounds.top - layout.rows * next.cardHeight) / (layout.rows - 1))
+  }
+
+  return next
+}
+
+// Change the number of cards; the board keeps its outer bounds and card/gap proportion.
+export const setCardLayoutGridSize = (layout: CardLayoutPercent, grid: CardGridSize): CardLayoutPercent =>
+  fitCardLayoutToBounds({ ...layout, cols: grid.cols, rows: grid.rows }, getCardLayoutBounds(layout))
+
+// Card rectangles in reading order, as fractions of the frame.
+export const getCardLayoutCells = (layout: CardLayoutPercent): Rect[] =>
+  Array.from({ length: layout.cols * layout.rows }, (_, cellIndex) => {
+    const col = cellIndex % layout.cols
+    const row = Math.floor(cellIndex / layout.cols)
+    const left = layout.left + col * (layout.cardWidth + layout.gapX)
+    const top = layout.top + row * (layout.cardHeight + layout.gapY)
+
+    return { left, top, right: left + layout.cardWidth, bottom: top + layout.cardHeight }
+  })
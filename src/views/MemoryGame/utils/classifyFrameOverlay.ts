@@ -0,0 +1,132 @@
+/*
+  Overlay classifier
+
+  Flags frames where something covers the board instead of a card being flipped, compared with
+  the face-down baseline (all inputs at analysis resolution):
+  - "dimmed": most cards got darker at once (a modal backdrop or a fade-out).
+  - "dialog": the gaps between cards in the middle of the board changed (a centered dialog box);
+    a flipping card stays inside its cell.
+  - "banner": a large share of the frame outside the board changed (banner text, toasts).
+  Without gaps or a margin around the board (e.g. the uniform fallback grid), only dimming is checked.
+*/
+
+// A card counts as darker below this share of its baseline brightness.
+const DIMMED_BRIGHTNESS_RATIO = 0.85
+const DIMMED_MIN_CELL_SHARE = 0.8
+const DIALOG_MIN_GAP_CHANGE_RATIO = 0.35
+const BANNER_MIN_CHANGE_RATIO = 0.25
+// The middle of the board (this share of its width and height) is where dialogs show up.
+const DIALOG_CENTER_RATIO = 0.5
+// Gap or margin areas smaller than this many pixels are too small to judge.
+const MIN_REGION_PIXELS = 50
+
+const REGION = { card: 0, centerGap: 1, edgeGap: 2, outside: 3 } as const
+
+export type OverlayClassifier = (pixels: Uint8ClampedArray) => OverlayKind | null
+
+type CreateOverlayClassifierArgs = {
+  baselineData: ImageData
+  // Areas a flipping card may cover, and the inner areas its brightness is measured on.
+  cellRects: Rect[]
+  evalRects: Rect[]
+  threshold: number
+}
+
+const getMeanBrightness = (pixels: Uint8ClampedArray, width: number, rect: Rect): number => {
+  let sum = 0
+  for (let y = rect.top; y < rect.bottom; y += 1) {
+    for (let x = rect.left; x < rect.right; x += 1) {
+      const offset = (y * width + x) * 4
+      sum += (pixels[offset] + pixels[offset + 1] + pixels[offset + 2]) / 3
+    }
+  }
+
+  return sum / Math.max(1, (rect.right - rect.left) * (rect.bottom - rect.top))
+}
+
+const buildRegionMap = (width: number, height: number, cellRects: Rect[]): Uint8Array => {
+  const regions = new Uint8Array(width * height).fill(REGION.outside)
+  if (cellRects.length === 0) {
+    return regions
+  }
+
+  const board = cellRects.reduce((bounds, rect) => ({
+    left: Math.min(bounds.left, rect.left),
+    top: Math.min(bounds.top, rect.top),
+    right: Math.max(bounds.right, rect.right),
+    bottom: Math.max(bounds.bottom, rect.bottom),
+  }))
+  const centerInsetX = ((board.right - board.left) * (1 - DIALOG_CENTER_RATIO)) / 2
+  const centerInsetY = ((board.bottom - board.top) * (1 - DIALOG_CENTER_RATIO)) / 2
+
+  for (let y = board.top; y < board.bottom; y += 1) {
+    const isCenterRow = y >= board.top + centerInsetY && y < board.bottom - centerInsetY
+    for (let x = board.left; x < board.right; x += 1) {
+      const isCenter = isCenterRow && x >= board.left + centerInsetX && x < board.right - centerInsetX
+      regions[y * width + x] = isCenter ? REGION.centerGap : REGION.edgeGap
+    }
+  }
+
+  for (const rect of cellRects) {
+    for (let y = rect.top; y < rect.bottom; y += 1) {
+      regions.fill(REGION.card, y * width + rect.left, y * width + rect.right)
+    }
+  }
+
+  return regions
+}
+
+export const createOverlayClassifier = ({
+  baselineData,
+  cellRects,
+  evalRects,
+  threshold,
+}: CreateOverlayClassifierArgs): OverlayClassifier => {
+  const { width, height, data: baselinePixels } = baselineData
+  const regions = buildRegionMap(width, height, cellRects)
+  const regionSizes = new Uint32Array(4)
+  regions.forEach((region) => {
+    regionSizes[region] += 1
+  })
+  const baselineBrightness = evalRects.map((rect) => getMeanBrightness(baselinePixels, width, rect))
+
+  const isRegionChanged = (changedCounts: Uint32Array, region: number, minRatio: number): boolean =>
+    regionSizes[region] >= MIN_REGION_PIXELS && changedCounts[region] / regionSizes[region] >= minRatio
+
+  return (pixels) => {
+    const darkerCells = evalRects.filter(
+      (rect, cellIndex) =>
+        getMeanBrightness(pixels, width, rect) < baselineBrightness[cellIndex] * DIMMED_BRIGHTNESS_RATIO,
+    ).length
+    if (evalRects.length > 0 && darkerCells >= evalRects.length * DIMMED_MIN_CELL_SHARE) {
+      return "dimmed"
+    }
+
+    const changedCounts = new Uint32Array(4)
+    for (let index = 0; index < regions.length; index += 1) {
+      if (regions[index] === REGION.card) {
+        continue
+      }
+
+      const offset = index * 4
+      const diff =
+        (Math.abs(pixels[offset] - baselinePixels[offset]) +
+          Math.abs(pixels[offset + 1] - baselinePixels[offset + 1]) +
+          Math.abs(pixels[offset + 2] - baselinePixels[offset + 2])) /
+        3
+      if (diff > threshold) {
+        changedCounts[regions[index]] += 1
+      }
+    }
+
+    if (isRegionChanged(changedCounts, REGION.centerGap, DIALOG_MIN_GAP_CHANGE_RATIO)) {
+      return "dialog"
+    }
+
+    if (isRegionChanged(changedCounts, REGION.outside, BANNER_MIN_CHANGE_RATIO)) {
+      return "banner"
+    }
+
+    return null
+  }
+}
@@ -0,0 +1,29 @@
+import { createProcessingReport } from "./processingReport"
+import { createZipArchive, type ZipEntry } from "./createZipArchive"
+
+const getBaseName = (fileName: string): string => fileName.replace(/\.[^./]+$/, "") || "video"
+
+// Same layout as the Playwright runner output: `<video name>.png` and `<video name>.json` per finished job.
+export const createBatchArchive = (jobs: BatchJob[]): Promise<Blob> => {
+  const usedNames = new Set<string>()
+  const entries = jobs.flatMap(({ file, result }): ZipEntry[] => {
+    if (!result) {
+      return []
+    }
+
+    // Recordings from different folders can share a name.
+    const baseName = getBaseName(file.name)
+    let name = baseName
+    for (let suffix = 2; usedNames.has(name); suffix += 1) {
+      name = `${baseName}-${suffix}`
+    }
+    usedNames.add(name)
+
+    return [
+      { name: `${name}.png`, data: result.image },
+      { name: `${name}.json`, data: new Blob([createProcessingReport(result)], { type: "application/json" }) },
+    ]
+  })
+
+  return createZipArchive(entries)
+}
@@ -0,0 +1,33 @@
+// Bytes fetched per slice; nearby reads (element headers, consecutive samples) are served from it.
+const DEFAULT_WINDOW_BYTES = 4 * 1024 * 1024
+
+export type BlobReader = {
+  size: number
+  // Up to `length` bytes from `offset`; fewer at the end of the blob. The view stays valid after later reads.
+  read: (offset: number, length: number) => Promise<Uint8Array>
+}
+
+/*
+  Random access to a Blob without loading it whole.
+
+  Reads go through `blob.slice` and one cached window, so memory stays at about one window no
+  matter how large the file is. Forward reads close to each other (the usual pattern when walking a
+  container or decoding samples in order) reuse the window.
+*/
+export const createBlobReader = (blob: Blob, windowBytes = DEFAULT_WINDOW_BYTES): BlobReader => {
+  let windowStart = 0
+  let windowData = new Uint8Array(0)
+
+  const read = async (offset: number, length: number): Promise<Uint8Array> => {
+    const end = Math.min(blob.size, offset + length)
+    if (offset < windowStart || end > windowStart + windowData.length) {
+      const windowEnd = Math.min(blob.size, offset + Math.max(length, windowBytes))
+      windowStart = offset
+      windowData = new Uint8Array(await blob.slice(offset, windowEnd).arrayBuffer())
+    }
+
+    return windowData.subarray(offset - windowStart, Math.max(offset, end) - windowStart)
+  }
+
+  return { size: blob.size, read }
+}
@@ -0,0 +1,175 @@
+/*
+  Live merge (worker side)
+
+  While recording there is no second pass over the video, so the file pipeline is folded into a
+  single streaming pass:
+  - The first captured frame becomes the baseline (the board is face-down before any flip),
+    and the board layout is detected on it.
+  - Every later frame is measured against it; frames where most of the board changed
+    (menus, transitions, window resizes) are skipped just like outside the active range, and
+    frames with a dimmed screen, a dialog or a banner are rejected as in the file pipeline.
+  - Remaining frames go straight into the card-aware merge.
+  Fallback fill needs to re-read earlier frames, which are gone by the time recording stops,
+  so the live result skips it.
+*/
+import {
+  buildGridRegions,
+  type CellMergeResult,
+  type CellMergeState,
+  createCellMergeState,
+  createFrameContexts,
+  finalizeCellMerge,
+  isBaselineWithinActiveRange,
+  measureFrame,
+  mergeFrameIntoCells,
+} from "./analyzeVideoFrames"
+import { createOverlayClassifier, type OverlayClassifier } from "./classifyFrameOverlay"
+import { detectCardLayout } from "./detectCardLayout"
+import type { AnalysisResult, DecodedFrame } from "./processingWorkerProtocol"
+
+type LiveFrameMerger = {
+  // `time`: capture time in seconds since the recording started.
+  addFrame: (frame: DecodedFrame, time: number) => boolean
+  getMergedFrameCount: () => number
+  renderPreview: () => Promise<AnalysisResult>
+  finish: () => Promise<AnalysisResult>
+}
+
+type CreateLiveFrameMergerArgs = {
+  videoWidth: number
+  videoHeight: number
+  options: ProcessingOptions
+  cardLayout: CardLayoutPercent
+  autoDetectLayout: boolean
+  collectDiagnostics: boolean
+}
+
+export const createLiveFrameMerger = ({
+  videoWidth,
+  videoHeight,
+  options,
+  cardLayout,
+  autoDetectLayout,
+  collectDiagnostics,
+}: CreateLiveFrameMergerArgs): LiveFrameMerger => {
+  const { analysisCtx, outputCtx } = createFrameContexts(videoWidth, videoHeight, options)
+  const analysisCanvas = analysisCtx.canvas
+  const outputCanvas = outputCtx.canvas
+
+  let analysisBaselinePixels: Uint8ClampedArray | null = null
+  let previousAnalysisPixels: Uint8ClampedArray | undefined
+  let mergeState: CellMergeState | null = null
+  let classifyOverlay: OverlayClassifier | null = null
+  const frameMetrics: FrameMetrics[] = []
+  const frameTimes: number[] = []
+  const mergeFrameIndices: number[] = []
+  const rejectedFrames: RejectedFrame[] = []
+  const timings = { analysisMs: 0, mergeMs: 0 }
+
+  const getMergeState = (): CellMergeState => {
+    if (!mergeState) {
+      throw new Error("No frames were captured while recording")
+    }
+
+    return mergeState
+  }
+
+  const addFrame = (frame: DecodedFrame, time: number): boolean => {
+    const analysisStartedAt = performance.now()
+    try {
+      analysisCtx.drawImage(frame, 0, 0, analysisCanvas.width, analysisCanvas.height)
+      outputCtx.drawImage(frame, 0, 0, outputCanvas.width, outputCanvas.height)
+    } finally {
+      frame.close()
+    }
+
+    const frameIndex = frameMetrics.length
+    frameTimes.push(time)
+    const analysisPixels = analysisCtx.getImageData(0, 0, analysisCanvas.width, analysisCanvas.height).data
+
+    if (!analysisBaselinePixels || !mergeState || !classifyOverlay) {
+      analysisBaselinePixels = analysisPixels
+      frameMetrics.push({ baselineRatio: 0, motionRatio: 0 })
+      const analysisBaselineData = new ImageData(analysisPixels, analysisCanvas.width, analysisCanvas.height)
+      const detectedLayout = autoDetectLayout ? detectCardLayout(analysisBaselineData, cardLayout) : null
+      const analysisRegions = buildGridRegions(
+        analysisCanvas.width,
+        analysisCanvas.height,
+        detectedLayout ?? cardLayout,
+      )
+      classifyOverlay = createOverlayClassifier({
+        baselineData: analysisBaselineData,
+        cellRects: analysisRegions.map(({ copyRect }) => copyRect),
+        evalRects: analysisRegions.map(({ evalRect }) => evalRect),
+        threshold: options.threshold,
+      })
+      mergeState = createCellMergeState({
+        baselineData: outputCtx.getImageData(0, 0, outputCanvas.width, outputCanvas.height),
+        options,
+        cardLayout: detectedLayout ?? cardLayout,
+        isCardLayoutDetected: Boolean(detectedLayout),
+        collectDiagnostics,
+      })
+      timings.analysisMs += performance.now() - analysisStartedAt
+      return false
+    }
+
+    const metrics = measureFrame(analysisPixels, analysisBaselinePixels, previousAnalysisPixels, options)
+    frameMetrics.push(metrics)
+    previousAnalysisPixels = analysisPixels
+    const overlay = classifyOverlay(analysisPixels)
+    if (overlay) {
+      rejectedFrames.push({ frameIndex, reason: overlay })
+    }
+    const mergeStartedAt = performance.now()
+    timings.analysisMs += mergeStartedAt - analysisStartedAt
+    if (overlay || !isBaselineWithinActiveRange(metrics.baselineRatio, options)) {
+      return false
+    }
+
+    const outputPixels = outputCtx.getImageData(0, 0, outputCanvas.width, outputCanvas.height).data
+    mergeFrameIntoCells(mergeState, frameIndex, outputPixels, metrics.motionRatio)
+    mergeFrameIndices.push(frameIndex)
+    timings.mergeMs += performance.now() - mergeStartedAt
+    return true
+  }
+
+  // Analysis and merge time is summed per frame; waiting for the next capture is not counted.
+  const toAnalysisResult = async (finalize: () => Promise<CellMergeResult>): Promise<AnalysisResult> => {
+    const finalizeStartedAt = performance.now()
+    const mergeResult = await finalize()
+    const finalizeMs = performance.now() - finalizeStartedAt
+
+    return {
+      ...mergeResult,
+      videoDuration: frameTimes.at(-1) ?? 0,
+      baseline: null,
+      firstFrameTime: frameTimes[0] ?? 0,
+      frameTimes: [...frameTimes],
+      frameMetrics: [...frameMetrics],
+      activeRange: null,
+      mergeFrameIndices: [...mergeFrameIndices],
+      rejectedFrames: [...rejectedFrames],
+      timings: { ...timings, finalizeMs, totalMs: timings.analysisMs + timings.mergeMs + finalizeMs },
+    }
+  }
+
+  // Finalizing sharpens the merged pixels in place, so previews work on a copy; they skip diagnostics.
+  const renderPreview = (): Promise<AnalysisResult> => {
+    const state = getMergeState()
+    const { data, width, height } = state.result
+    return toAnalysisResult(() =>
+      finalizeCellMerge(
+        { ...state, candidateCrops: null, result: new ImageData(new Uint8ClampedArray(data), width, height) },
+        outputCtx,
+      ),
+    )
+  }
+
+  return {
+    addFrame,
+    getMergedFrameCount: () => mergeFrameIndices.length,
+    renderPreview,
+    finish: () => toAnalysisResult(() => finalizeCellMerge(getMergeState(), outputCtx)),
+  }
+}
@@ -0,0 +1,180 @@
+/*
+  Live processing (main-thread side)
+
+  Grabs frames from the recording track while it is still running and streams them into
+  `processVideo.worker`, which merges them as they arrive:
+  - Frames are sampled at the configured `fps`, the same rate the file pipeline uses.
+  - At most `MAX_FRAMES_IN_FLIGHT` frames wait in the worker; slower machines simply drop samples.
+    Every frame carries its capture time, so results still map frames to the right video time.
+  - `finish()` resolves with the final merged result once the last frames are through.
+  - The track is owned by the recorder and is never stopped here.
+*/
+import { DEFAULT_CARD_LAYOUT_PERCENT } from "./cardLayout"
+import { resolveProcessingOptions } from "./processingOptions"
+import type { WorkerRequest, WorkerResponse } from "./processingWorkerProtocol"
+import { toProcessingResult } from "./toProcessingResult"
+
+type CreateLiveProcessingSessionArgs = {
+  // Used as-is when detection is off or finds no board.
+  cardLayout?: CardLayoutPercent
+  autoDetectLayout?: boolean
+  collectDiagnostics?: boolean
+  track: MediaStreamTrack
+  onPreview: (result: ProcessingResult) => void
+  options?: Partial<ProcessingOptions>
+  signal: AbortSignal
+}
+
+type LiveProcessingSession = {
+  finish: () => Promise<ProcessingResult>
+}
+
+const MAX_FRAMES_IN_FLIGHT = 2
+
+export const createLiveProcessingSession = ({
+  cardLayout = DEFAULT_CARD_LAYOUT_PERCENT,
+  autoDetectLayout = false,
+  collectDiagnostics = false,
+  track,
+  onPreview,
+  options,
+  signal,
+}: CreateLiveProcessingSessionArgs): LiveProcessingSession => {
+  const resolvedOptions = resolveProcessingOptions(options)
+  const worker = new Worker(new URL("./processVideo.worker.ts", import.meta.url), { type: "module" })
+  const video = document.createElement("video")
+  video.muted = true
+  video.playsInline = true
+  video.srcObject = new MediaStream([track])
+  void video.play().catch(() => {
+    // Ignore autoplay rejections; frames are only grabbed once the video has data.
+  })
+
+  // The session starts together with the recording, so this is the recorded video's time 0.
+  const startedAt = performance.now()
+  // Previews and the final result are one run, so UI state such as pair marks survives new previews.
+  const runId = crypto.randomUUID()
+  let framesInFlight = 0
+  let hasStarted = false
+  let pendingCapture: Promise<void> = Promise.resolve()
+  let settle: { resolve: (result: ProcessingResult) => void; reject: (error: unknown) => void } | null = null
+  let failure: Error | null = null
+
+  const postToWorker = (message: WorkerRequest, transfer: Transferable[] = []) => {
+    worker.postMessage(message, transfer)
+  }
+
+  const captureFrame = async () => {
+    if (framesInFlight >= MAX_FRAMES_IN_FLIGHT || video.readyState < HTMLMediaElement.HAVE_CURRENT_DATA) {
+      return
+    }
+
+    framesInFlight += 1
+    try {
+      const time = (performance.now() - startedAt) / 1000
+      const frame = await createImageBitmap(video)
+      if (signal.aborted || failure) {
+        frame.close()
+        return
+      }
+
+      // The first frame fixes the working resolution for the whole session.
+      if (!hasStarted) {
+        hasStarted = true
+        postToWorker({
+          type: "live-start",
+          videoWidth: frame.width,
+          videoHeight: frame.height,
+          options: resolvedOptions,
+          cardLayout,
+          autoDetectLayout,
+          collectDiagnostics,
+        })
+      }
+
+      postToWorker({ type: "live-frame", frame, time }, [frame])
+    } catch {
+      // A dropped sample is harmless; the next tick grabs a fresh frame.
+      framesInFlight -= 1
+    }
+  }
+
+  const captureTimerId = window.setInterval(() => {
+    pendingCapture = pendingCapture.then(captureFrame)
+  }, 1000 / resolvedOptions.fps)
+
+  const stopCapture = () => {
+    window.clearInterval(captureTimerId)
+    video.pause()
+    video.srcObject = null
+  }
+
+  const dispose = () => {
+    stopCapture()
+    worker.terminate()
+  }
+
+  const fail = (error: unknown) => {
+    failure = error instanceof Error ? error : new Error("Live processing failed")
+    dispose()
+    settle?.reject(error)
+  }
+
+  worker.onmessage = (event: MessageEvent<WorkerResponse>) => {
+    const message = event.data
+
+    switch (message.type) {
+      case "live-frame-done":
+        framesInFlight -= 1
+        return
+      case "live-preview":
+        // Previews that arrive after stopping would overwrite a fresher final result.
+        if (!settle) {
+          toProcessingResult(message.result, runId)
+            .then((result) => {
+              if (!settle && !signal.aborted) {
+                onPreview(result)
+              }
+            })
+            .catch(() => {
+              // A skipped preview is replaced by the next one.
+            })
+        }
+        return
+      case "result":
+        toProcessingResult(message.result, runId)
+          .then((result) => settle?.resolve(result))
+          .catch((error: unknown) => settle?.reject(error))
+          .finally(dispose)
+        return
+      case "error":
+        fail(new Error(message.message))
+    }
+  }
+
+  worker.onerror = (event) => {
+    fail(new Error(event.message || "Video processing worker failed"))
+  }
+
+  signal.addEventListener("abort", () => fail(signal.reason), { once: true })
+
+  const finish = () =>
+    new Promise<ProcessingResult>((resolve, reject) => {
+      if (signal.aborted) {
+        reject(signal.reason)
+        return
+      }
+
+      if (failure) {
+        reject(failure)
+        return
+      }
+
+      settle = { resolve, reject }
+      stopCapture()
+      // Let the last grabbed frame reach the worker before asking for the final merge.
+      void pendingCapture.then(() => postToWorker({ type: "live-finish" }))
+    })
+
+  return { finish }
+}
@@ -0,0 +1,86 @@
+import type { VideoFrameProvider } from "./videoFrameProvider"
+
+const loadVideoMetadata = (video: HTMLVideoElement, src: string): Promise<void> =>
+  new Promise<void>((resolve, reject) => {
+    const handleLoaded = () => {
+      cleanup()
+      resolve()
+    }
+    const handleError = () => {
+      cleanup()
+      reject(new Error("Unable to load video metadata"))
+    }
+    const cleanup = () => {
+      video.removeEventListener("loadedmetadata", handleLoaded)
+      video.removeEventListener("error", handleError)
+    }
+
+    video.addEventListener("loadedmetadata", handleLoaded, { once: true })
+    video.addEventListener("error", handleError, { once: true })
+    video.src = src
+  })
+
+// Seek helper. Firefox fastSeek may jump to the first keyframe, so always set currentTime.
+const seekTo = (video: HTMLVideoElement, targetTime: number): Promise<void> => {
+  if (Math.abs(video.currentTime - targetTime) < 0.001) {
+    return Promise.resolve()
+  }
+
+  return new Promise((resolve, reject) => {
+    const handleSeeked = () => {
+      cleanup()
+      resolve()
+    }
+    const handleError = () => {
+      cleanup()
+      reject(new Error("Unable to seek video frame"))
+    }
+    const cleanup = () => {
+      video.removeEventListener("seeked", handleSeeked)
+      video.removeEventListener("error", handleError)
+    }
+
+    video.addEventListener("seeked", handleSeeked, { once: true })
+    video.addEventListener("error", handleError, { once: true })
+    video.currentTime = targetTime
+  })
+}
+
+// Browser-only decode path: HTMLVideoElement + seek per frame (no ffmpeg/OpenCV dependency).
+export const createVideoElementFrameProvider = async (blob: Blob): Promise<VideoFrameProvider> => {
+  const video = document.createElement("video")
+  video.preload = "auto"
+  video.muted = true
+  video.playsInline = true
+  const objectUrl = URL.createObjectURL(blob)
+
+  const close = () => {
+    video.removeAttribute("src")
+    video.load()
+    URL.revokeObjectURL(objectUrl)
+  }
+
+  try {
+    await loadVideoMetadata(video, objectUrl)
+    // MediaRecorder WebM files report an Infinity duration until the end has been seeked to once.
+    if (!Number.isFinite(video.duration)) {
+      await seekTo(video, Number.MAX_SAFE_INTEGER)
+      await seekTo(video, 0)
+    }
+  } catch (error) {
+    close()
+    throw error
+  }
+
+  return {
+    kind: "video-element",
+    duration: video.duration,
+    width: video.videoWidth,
+    height: video.videoHeight,
+    readFrame: async (time) => {
+      await seekTo(video, time)
+      return createImageBitmap(video)
+    },
+    close,
+  }
+}
@@ -0,0 +1,163 @@
+import { createBlobReader } from "./createBlobReader"
+import { demuxVideo } from "./demuxVideo"
+import type { VideoFrameProvider } from "./videoFrameProvider"
+
+// Safety net in case a decoder neither emits a frame nor a dequeue event for a chunk.
+const DECODER_WAIT_TIMEOUT_MS = 50
+
+/*
+  Sequential WebCodecs decoder.
+
+  Frames are decoded forward from the nearest keyframe and only the newest frame at or before the
+  requested timestamp is kept, so reading the sampled timestamps in order touches every chunk
+  exactly once. Requests that go backwards (or jump far ahead) restart from the closest keyframe.
+  Encoded samples are read from the blob in slices as they are decoded, so the file is never
+  loaded whole.
+*/
+export const createWebCodecsFrameProvider = async (blob: Blob): Promise<VideoFrameProvider> => {
+  const track = await demuxVideo(blob)
+  const { samples } = track
+  if (samples.length === 0) {
+    throw new Error("Video has no decodable frames")
+  }
+
+  const config: VideoDecoderConfig = {
+    codec: track.codec,
+    codedWidth: track.codedWidth,
+    codedHeight: track.codedHeight,
+    description: track.description,
+  }
+  const support = await VideoDecoder.isConfigSupported(config)
+  if (!support.supported) {
+    throw new Error(`Codec ${track.codec} is not supported by VideoDecoder`)
+  }
+
+  const sampleReader = createBlobReader(blob)
+  const firstTimestamp = samples.reduce((min, sample) => Math.min(min, sample.timestamp), Infinity)
+  // Decoded frames in presentation order, pruned to the newest one at or before the last target.
+  const frames: VideoFrame[] = []
+  let decodeError: Error | null = null
+  let wakeUp: (() => void) | null = null
+  let nextSampleIndex = 0
+  let isFlushed = false
+
+  const notify = () => {
+    const resolve = wakeUp
+    wakeUp = null
+    resolve?.()
+  }
+
+  const waitForDecoder = () =>
+    new Promise<void>((resolve) => {
+      wakeUp = resolve
+      setTimeout(notify, DECODER_WAIT_TIMEOUT_MS)
+    })
+
+  const decoder = new VideoDecoder({
+    output: (frame) => {
+      frames.push(frame)
+      notify()
+    },
+    error: (error) => {
+      decodeError = error
+      notify()
+    },
+  })
+  decoder.addEventListener("dequeue", notify)
+
+  const releaseFrames = () => {
+    frames.splice(0).forEach((frame) => frame.close())
+  }
+
+  const restartAt = (sampleIndex: number) => {
+    releaseFrames()
+    if (decoder.state === "configured") {
+      decoder.reset()
+    }
+    decoder.configure(config)
+    nextSampleIndex = sampleIndex
+    isFlushed = false
+  }
+
+  const findKeySampleIndex = (timestamp: number): number => {
+    let keyIndex = 0
+    for (let index = 0; index < samples.length; index += 1) {
+      if (samples[index].isKey && samples[index].timestamp <= timestamp) {
+        keyIndex = index
+      }
+    }
+    return keyIndex
+  }
+
+  const readFrame = async (time: number): Promise<VideoFrame> => {
+    const target = Math.round(time * 1_000_000)
+    const keyIndex = findKeySampleIndex(target)
+    const oldestFrame = frames[0]
+    const isBehindTarget = oldestFrame && oldestFrame.timestamp > target && oldestFrame.timestamp > firstTimestamp
+
+    if (decoder.state !== "configured" || isBehindTarget || keyIndex > nextSampleIndex) {
+      restartAt(keyIndex)
+    }
+
+    while (true) {
+      if (decodeError) {
+        throw decodeError
+      }
+
+      // Keep only the newest frame at or before the target.
+      while (frames.length >= 2 && frames[1].timestamp <= target) {
+        frames.shift()?.close()
+      }
+
+      const newestFrame = frames[frames.length - 1]
+      if (newestFrame && newestFrame.timestamp > target) {
+        break
+      }
+
+      if (nextSampleIndex < samples.length) {
+        const sample = samples[nextSampleIndex]
+        nextSampleIndex += 1
+        decoder.decode(
+          new EncodedVideoChunk({
+            type: sample.isKey ? "key" : "delta",
+            timestamp: sample.timestamp,
+            duration: sample.duration,
+            data: await sampleReader.read(sample.offset, sample.size),
+          }),
+        )
+        await waitForDecoder()
+        continue
+      }
+
+      if (!isFlushed) {
+        isFlushed = true
+        await decoder.flush()
+        continue
+      }
+
+      break
+    }
+
+    const frame = frames[0]
+    if (!frame) {
+      throw new Error("Unable to decode video frame")
+    }
+
+    // Clone so the cached frame can serve repeated requests for the same timestamp.
+    return frame.clone()
+  }
+
+  return {
+    kind: "webcodecs",
+    duration: track.duration,
+    width: track.codedWidth,
+    height: track.codedHeight,
+    readFrame,
+    close: () => {
+      releaseFrames()
+      if (decoder.state !== "closed") {
+        decoder.close()
+      }
+    },
+  }
+}
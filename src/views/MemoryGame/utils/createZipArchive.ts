@@ -0,0 +1,121 @@
+/*
+  Minimal ZIP writer
+
+  Batch results are PNG and JSON files, and PNG data is already compressed, so entries are
+  written with the STORE method (no compression). That keeps this to a CRC32 plus the three
+  record types the format requires:
+  - A local file header in front of every entry's data.
+  - A central directory entry per file after all data.
+  - The end of central directory record pointing at that directory.
+  ZIP64 is not supported, so the archive has to stay below 4 GiB and 65535 entries.
+*/
+
+export type ZipEntry = {
+  name: string
+  data: Blob
+}
+
+const MAX_ZIP_SIZE = 0xffffffff
+const MAX_ZIP_ENTRIES = 0xffff
+// Bit 11 of the general purpose flag: file names are UTF-8.
+const UTF8_NAME_FLAG = 0x0800
+
+const CRC32_TABLE = (() => {
+  const table = new Uint32Array(256)
+  for (let index = 0; index < 256; index += 1) {
+    let value = index
+    for (let bit = 0; bit < 8; bit += 1) {
+      value = value & 1 ? 0xedb88320 ^ (value >>> 1) : value >>> 1
+    }
+    table[index] = value
+  }
+
+  return table
+})()
+
+const crc32 = (bytes: Uint8Array): number => {
+  let crc = 0xffffffff
+  for (let index = 0; index < bytes.length; index += 1) {
+    crc = CRC32_TABLE[(crc ^ bytes[index]) & 0xff] ^ (crc >>> 8)
+  }
+
+  return (crc ^ 0xffffffff) >>> 0
+}
+
+// MS-DOS date/time as stored in ZIP headers (local time, 2-second resolution, years from 1980).
+const toDosDateTime = (date: Date): { date: number; time: number } => ({
+  date: ((Math.max(1980, date.getFullYear()) - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+  time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+})
+
+export const createZipArchive = async (entries: ZipEntry[], modifiedAt = new Date()): Promise<Blob> => {
+  if (entries.length > MAX_ZIP_ENTRIES) {
+    throw new Error(`A ZIP archive can hold at most ${MAX_ZIP_ENTRIES} files`)
+  }
+
+  const encoder = new TextEncoder()
+  const dosDateTime = toDosDateTime(modifiedAt)
+  const parts: BlobPart[] = []
+  const centralDirectory: Uint8Array<ArrayBuffer>[] = []
+  let offset = 0
+
+  for (const entry of entries) {
+    const name = encoder.encode(entry.name)
+    const data = new Uint8Array(await entry.data.arrayBuffer())
+    const checksum = crc32(data)
+
+    const localHeader = new Uint8Array(30 + name.length)
+    const local = new DataView(localHeader.buffer)
+    local.setUint32(0, 0x04034b50, true)
+    local.setUint16(4, 20, true)
+    local.setUint16(6, UTF8_NAME_FLAG, true)
+    local.setUint16(8, 0, true)
+    local.setUint16(10, dosDateTime.time, true)
+    local.setUint16(12, dosDateTime.date, true)
+    local.setUint32(14, checksum, true)
+    local.setUint32(18, data.length, true)
+    local.setUint32(22, data.length, true)
+    local.setUint16(26, name.length, true)
+    local.setUint16(28, 0, true)
+    localHeader.set(name, 30)
+
+    const centralHeader = new Uint8Array(46 + name.length)
+    const central = new DataView(centralHeader.buffer)
+    central.setUint32(0, 0x02014b50, true)
+    central.setUint16(4, 20, true)
+    central.setUint16(6, 20, true)
+    central.setUint16(8, UTF8_NAME_FLAG, true)
+    central.setUint16(10, 0, true)
+    central.setUint16(12, dosDateTime.time, true)
+    central.setUint16(14, dosDateTime.date, true)
+    central.setUint32(16, checksum, true)
+    central.setUint32(20, data.length, true)
+    central.setUint32(24, data.length, true)
+    central.setUint16(28, name.length, true)
+    central.setUint32(42, offset, true)
+    centralHeader.set(name, 46)
+
+    parts.push(localHeader, data)
+    centralDirectory.push(centralHeader)
+    offset += localHeader.length + data.length
+
+    if (offset > MAX_ZIP_SIZE) {
+      throw new Error("The ZIP archive is too large")
+    }
+  }
+
+  const centralDirectorySize = centralDirectory.reduce((sum, header) => sum + header.length, 0)
+  if (offset + centralDirectorySize > MAX_ZIP_SIZE) {
+    throw new Error("The ZIP archive is too large")
+  }
+
+  const endRecord = new Uint8Array(22)
+  const end = new DataView(endRecord.buffer)
+  end.setUint32(0, 0x06054b50, true)
+  end.setUint16(8, entries.length, true)
+  end.setUint16(10, entries.length, true)
+  end.setUint32(12, centralDirectorySize, true)
+  end.setUint32(16, offset, true)
+
+  return new Blob([...parts, ...centralDirectory, endRecord], { type: "application/zip" })
+}
@@ -0,0 +1,764 @@
+import { type BlobReader, createBlobReader } from "./createBlobReader"
+
+/*
+  Minimal video demuxer for WebCodecs decoding.
+
+  Supports the containers MediaRecorder produces:
+  - WebM/Matroska (EBML): SimpleBlock/Block frames, including unknown-size Segment/Cluster.
+  - MP4 (ISO BMFF): classic `stbl` sample tables and fragmented `moof/trun` files.
+
+  Only the first video track is extracted. The file is walked in slices: only element and box
+  headers, track metadata and MP4 sample tables are read, and sample data stays in the file until
+  the decoder asks for it.
+*/
+export type DemuxedSample = {
+  // Presentation timestamp and duration in microseconds (WebCodecs units).
+  timestamp: number
+  duration: number
+  isKey: boolean
+  // Byte range of the encoded frame in the file.
+  offset: number
+  size: number
+}
+
+export type DemuxedVideoTrack = {
+  codec: string
+  description?: Uint8Array
+  codedWidth: number
+  codedHeight: number
+  // Seconds.
+  duration: number
+  // Decode order.
+  samples: DemuxedSample[]
+}
+
+const MICROSECONDS_PER_SECOND = 1_000_000
+const FALLBACK_FRAME_DURATION_US = Math.round(MICROSECONDS_PER_SECOND / 30)
+
+const toHex = (value: number): string => value.toString(16).padStart(2, "0")
+
+// Durations are rarely stored per frame, so derive them from presentation-order gaps.
+const finalizeTrack = (
+  track: Omit<DemuxedVideoTrack, "duration" | "samples">,
+  samples: DemuxedSample[],
+  declaredDuration: number,
+): DemuxedVideoTrack => {
+  const presentationOrder = [...samples].sort((first, second) => first.timestamp - second.timestamp)
+
+  for (let index = 0; index < presentationOrder.length; index += 1) {
+    const sample = presentationOrder[index]
+    const next = presentationOrder[index + 1]
+    if (sample.duration > 0) {
+      continue
+    }
+
+    sample.duration = next ? Math.max(1, next.timestamp - sample.timestamp) : FALLBACK_FRAME_DURATION_US
+  }
+
+  const lastSample = presentationOrder[presentationOrder.length - 1]
+  const measuredDuration = lastSample ? (lastSample.timestamp + lastSample.duration) / MICROSECONDS_PER_SECOND : 0
+
+  return {
+    ...track,
+    duration: declaredDuration > 0 && Number.isFinite(declaredDuration) ? declaredDuration : measuredDuration,
+    samples,
+  }
+}
+
+/* WebM / Matroska */
+
+const EBML_ID = {
+  ebml: 0x1a45dfa3,
+  segment: 0x18538067,
+  info: 0x1549a966,
+  timecodeScale: 0x2ad7b1,
+  duration: 0x4489,
+  tracks: 0x1654ae6b,
+  trackEntry: 0xae,
+  trackNumber: 0xd7,
+  trackType: 0x83,
+  codecId: 0x86,
+  codecPrivate: 0x63a2,
+  video: 0xe0,
+  pixelWidth: 0xb0,
+  pixelHeight: 0xba,
+  cluster: 0x1f43b675,
+  timecode: 0xe7,
+  simpleBlock: 0xa3,
+  blockGroup: 0xa0,
+  block: 0xa1,
+}
+
+// Master elements we step into instead of skipping. Walking them inline also handles unknown sizes.
+const EBML_CONTAINERS = new Set([
+  EBML_ID.segment,
+  EBML_ID.info,
+  EBML_ID.tracks,
+  EBML_ID.trackEntry,
+  EBML_ID.video,
+  EBML_ID.cluster,
+  EBML_ID.blockGroup,
+])
+
+// Value elements whose data is read; every other non-container element is skipped unread.
+const EBML_VALUE_IDS = new Set([
+  EBML_ID.timecodeScale,
+  EBML_ID.duration,
+  EBML_ID.trackNumber,
+  EBML_ID.trackType,
+  EBML_ID.codecId,
+  EBML_ID.codecPrivate,
+  EBML_ID.pixelWidth,
+  EBML_ID.pixelHeight,
+  EBML_ID.timecode,
+])
+
+const MATROSKA_VIDEO_TRACK_TYPE = 1
+const MATROSKA_DEFAULT_TIMECODE_SCALE = 1_000_000
+// Longest element header (8-byte ID and 8-byte size), and the block header bytes read before the
+// frame data (track number vint, relative timecode and flags).
+const EBML_MAX_HEADER_BYTES = 16
+const EBML_MAX_BLOCK_HEADER_BYTES = 11
+
+type WebmTrackEntry = {
+  number: number
+  type: number
+  codecId: string
+  codecPrivate?: Uint8Array
+  width: number
+  height: number
+}
+
+const readVint = (bytes: Uint8Array, offset: number, keepMarker: boolean) => {
+  const first = bytes[offset]
+  let length = 1
+  let mask = 0x80
+  while (length <= 8 && (first & mask) === 0) {
+    mask >>= 1
+    length += 1
+  }
+
+  if (length > 8 || offset + length > bytes.length) {
+    throw new Error("Invalid EBML variable-length integer")
+  }
+
+  let value = keepMarker ? first : first & (mask - 1)
+  let isAllOnes = (first & (mask - 1)) === mask - 1
+  for (let index = 1; index < length; index += 1) {
+    value = value * 256 + bytes[offset + index]
+    isAllOnes = isAllOnes && bytes[offset + index] === 0xff
+  }
+
+  return { value, length, isUnknown: !keepMarker && isAllOnes }
+}
+
+const readUnsigned = (bytes: Uint8Array, start: number, end: number): number => {
+  let value = 0
+  for (let offset = start; offset < end; offset += 1) {
+    value = value * 256 + bytes[offset]
+  }
+  return value
+}
+
+const readFloat = (bytes: Uint8Array, start: number, end: number): number => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset + start, end - start)
+  return end - start === 4 ? view.getFloat32(0) : view.getFloat64(0)
+}
+
+const readAscii = (bytes: Uint8Array, start: number, end: number): string =>
+  String.fromCharCode(...bytes.subarray(start, end)).replace(/\0+$/, "")
+
+const toWebmCodecString = (entry: WebmTrackEntry): string => {
+  switch (entry.codecId) {
+    case "V_VP8":
+      return "vp8"
+    case "V_VP9":
+      return "vp09.00.10.08"
+    case "V_AV1":
+      return "av01.0.04M.08"
+    case "V_MPEG4/ISO/AVC": {
+      const avcConfig = entry.codecPrivate
+      if (!avcConfig || avcConfig.length < 4) {
+        throw new Error("Missing AVC decoder configuration")
+      }
+      return `avc1.${toHex(avcConfig[1])}${toHex(avcConfig[2])}${toHex(avcConfig[3])}`
+    }
+    default:
+      throw new Error(`Unsupported WebM codec ${entry.codecId}`)
+  }
+}
+
+const demuxWebm = async (reader: BlobReader): Promise<DemuxedVideoTrack> => {
+  const entries: WebmTrackEntry[] = []
+  const samples: DemuxedSample[] = []
+  let timecodeScale = MATROSKA_DEFAULT_TIMECODE_SCALE
+  let declaredDuration = 0
+  let clusterTimecode = 0
+  let videoTrack: WebmTrackEntry | undefined
+  let offset = 0
+
+  const addBlock = async (dataStart: number, dataEnd: number, isSimpleBlock: boolean) => {
+    videoTrack ??= entries.find((entry) => entry.type === MATROSKA_VIDEO_TRACK_TYPE)
+    const header = await reader.read(dataStart, Math.min(dataEnd - dataStart, EBML_MAX_BLOCK_HEADER_BYTES))
+    const trackNumber = readVint(header, 0, false)
+    if (!videoTrack || trackNumber.value !== videoTrack.number) {
+      return
+    }
+
+    const headerStart = trackNumber.length
+    const relativeTimecode = ((header[headerStart] << 24) | (header[headerStart + 1] << 16)) >> 16
+    const flags = header[headerStart + 2]
+    if ((flags & 0x06) !== 0) {
+      throw new Error("Laced WebM blocks are not supported")
+    }
+
+    const frameStart = dataStart + headerStart + 3
+    samples.push({
+      timestamp: Math.round(((clusterTimecode + relativeTimecode) * timecodeScale) / 1000),
+      duration: 0,
+      // BlockGroup blocks carry no keyframe flag; only the very first one is a safe decode start.
+      isKey: isSimpleBlock ? (flags & 0x80) !== 0 : samples.length === 0,
+      offset: frameStart,
+      size: dataEnd - frameStart,
+    })
+  }
+
+  while (offset < reader.size) {
+    const header = await reader.read(offset, EBML_MAX_HEADER_BYTES)
+    let id: ReturnType<typeof readVint>
+    let size: ReturnType<typeof readVint>
+    try {
+      id = readVint(header, 0, true)
+      size = readVint(header, id.length, false)
+    } catch {
+      // Element header cut off at the end of the file.
+      break
+    }
+
+    const dataStart = offset + id.length + size.length
+    const declaredEnd = dataStart + size.value
+
+    if (EBML_CONTAINERS.has(id.value)) {
+      if (id.value === EBML_ID.trackEntry) {
+        entries.push({ number: 0, type: 0, codecId: "", width: 0, height: 0 })
+      }
+      offset = dataStart
+      continue
+    }
+
+    if (size.isUnknown || declaredEnd > reader.size) {
+      // Truncated tail (for example a recording stopped mid-write): keep what was parsed.
+      break
+    }
+
+    if (id.value === EBML_ID.simpleBlock || id.value === EBML_ID.block) {
+      await addBlock(dataStart, declaredEnd, id.value === EBML_ID.simpleBlock)
+      offset = declaredEnd
+      continue
+    }
+
+    if (!EBML_VALUE_IDS.has(id.value)) {
+      // Skipped without reading its data (cues, tags, void, audio-only elements, ...).
+      offset = declaredEnd
+      continue
+    }
+
+    // Copied so the value does not keep the reader's whole window alive.
+    const data = (await reader.read(dataStart, size.value)).slice()
+    const entry = entries[entries.length - 1]
+    switch (id.value) {
+      case EBML_ID.timecodeScale:
+        timecodeScale = readUnsigned(data, 0, data.length)
+        break
+      case EBML_ID.duration:
+        declaredDuration = readFloat(data, 0, data.length)
+        break
+      case EBML_ID.trackNumber:
+        if (entry) {
+          entry.number = readUnsigned(data, 0, data.length)
+        }
+        break
+      case EBML_ID.trackType:
+        if (entry) {
+          entry.type = readUnsigned(data, 0, data.length)
+        }
+        break
+      case EBML_ID.codecId:
+        if (entry) {
+          entry.codecId = readAscii(data, 0, data.length)
+        }
+        break
+      case EBML_ID.codecPrivate:
+        if (entry) {
+          entry.codecPrivate = data
+        }
+        break
+      case EBML_ID.pixelWidth:
+        if (entry) {
+          entry.width = readUnsigned(data, 0, data.length)
+        }
+        break
+      case EBML_ID.pixelHeight:
+        if (entry) {
+          entry.height = readUnsigned(data, 0, data.length)
+        }
+        break
+      case EBML_ID.timecode:
+        clusterTimecode = readUnsigned(data, 0, data.length)
+        break
+    }
+
+    offset = declaredEnd
+  }
+
+  videoTrack ??= entries.find((entry) => entry.type === MATROSKA_VIDEO_TRACK_TYPE)
+  if (!videoTrack) {
+    throw new Error("No video track found in WebM file")
+  }
+
+  return finalizeTrack(
+    {
+      codec: toWebmCodecString(videoTrack),
+      description: videoTrack.codecId === "V_MPEG4/ISO/AVC" ? videoTrack.codecPrivate : undefined,
+      codedWidth: videoTrack.width,
+      codedHeight: videoTrack.height,
+    },
+    samples,
+    (declaredDuration * timecodeScale) / 1_000_000_000,
+  )
+}
+
+/* MP4 / ISO BMFF */
+
+type Mp4Box = {
+  type: string
+  start: number
+  dataStart: number
+  end: number
+}
+
+type Mp4Defaults = {
+  sampleDuration: number
+  sampleSize: number
+  sampleFlags: number
+}
+
+const MP4_NON_SYNC_SAMPLE_FLAG = 0x10000
+// Visual sample entry fields before its child boxes (avcC, vpcC, ...).
+const MP4_VISUAL_SAMPLE_ENTRY_SIZE = 78
+
+// Box whose header starts at `offset` and which may extend `available` bytes; null when the header is cut off or invalid.
+const readMp4Box = (view: DataView, offset: number, available: number): Mp4Box | null => {
+  if (available < 8 || offset + 8 > view.byteLength) {
+    return null
+  }
+
+  let size = view.getUint32(offset)
+  const type = String.fromCharCode(
+    view.getUint8(offset + 4),
+    view.getUint8(offset + 5),
+    view.getUint8(offset + 6),
+    view.getUint8(offset + 7),
+  )
+  let dataStart = offset + 8
+
+  if (size === 1) {
+    if (offset + 16 > view.byteLength) {
+      return null
+    }
+    size = Number(view.getBigUint64(offset + 8))
+    dataStart += 8
+  } else if (size === 0) {
+    size = available
+  }
+
+  if (size < dataStart - offset) {
+    return null
+  }
+
+  return { type, start: offset, dataStart, end: offset + Math.min(available, size) }
+}
+
+const readMp4Boxes = (view: DataView, start: number, end: number): Mp4Box[] => {
+  const boxes: Mp4Box[] = []
+  let offset = start
+
+  while (offset + 8 <= end) {
+    const box = readMp4Box(view, offset, end - offset)
+    if (!box) {
+      break
+    }
+
+    boxes.push(box)
+    offset = box.end
+  }
+
+  return boxes
+}
+
+// Top-level boxes with file offsets, found by reading only their headers.
+const readTopLevelMp4Boxes = async (reader: BlobReader): Promise<Mp4Box[]> => {
+  const boxes: Mp4Box[] = []
+  let offset = 0
+
+  while (offset + 8 <= reader.size) {
+    const header = await reader.read(offset, 16)
+    const box = readMp4Box(new DataView(header.buffer, header.byteOffset, header.byteLength), 0, reader.size - offset)
+    if (!box) {
+      break
+    }
+
+    boxes.push({ type: box.type, start: offset, dataStart: offset + box.dataStart, end: offset + box.end })
+    offset += box.end
+  }
+
+  return boxes
+}
+
+// Reads a whole (small) box such as `moov` or `moof`; offsets in the returned box are relative to `bytes`.
+const readMp4BoxBytes = async (reader: BlobReader, box: Mp4Box) => {
+  const bytes = await reader.read(box.start, box.end - box.start)
+  return {
+    bytes,
+    view: new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength),
+    box: { type: box.type, start: 0, dataStart: box.dataStart - box.start, end: bytes.length },
+  }
+}
+
+const findMp4Box = (view: DataView, parent: Mp4Box, path: string[]): Mp4Box | undefined => {
+  let current: Mp4Box | undefined = parent
+  for (const type of path) {
+    current = current && readMp4Boxes(view, current.dataStart, current.end).find((box) => box.type === type)
+  }
+  return current
+}
+
+const toMp4CodecString = (view: DataView, bytes: Uint8Array, entry: Mp4Box) => {
+  const children = readMp4Boxes(view, entry.dataStart + MP4_VISUAL_SAMPLE_ENTRY_SIZE, entry.end)
+  const findChild = (type: string) => children.find((box) => box.type === type)
+
+  switch (entry.type) {
+    case "avc1":
+    case "avc3": {
+      const avcC = findChild("avcC")
+      if (!avcC) {
+        throw new Error("Missing AVC decoder configuration")
+      }
+      const config = bytes.slice(avcC.dataStart, avcC.end)
+      return { codec: `avc1.${toHex(config[1])}${toHex(config[2])}${toHex(config[3])}`, description: config }
+    }
+    case "vp09": {
+      const vpcC = findChild("vpcC")
+      if (!vpcC) {
+        return { codec: "vp09.00.10.08" }
+      }
+      // Full box header (4 bytes), then profile, level and bit depth (upper nibble).
+      const profile = bytes[vpcC.dataStart + 4]
+      const level = bytes[vpcC.dataStart + 5]
+      const bitDepth = bytes[vpcC.dataStart + 6] >> 4
+      return { codec: `vp09.${String(profile).padStart(2, "0")}.${level}.${String(bitDepth).padStart(2, "0")}` }
+    }
+    case "av01": {
+      const av1C = findChild("av1C")
+      if (!av1C) {
+        return { codec: "av01.0.04M.08" }
+      }
+      const profile = bytes[av1C.dataStart + 1] >> 5
+      const level = bytes[av1C.dataStart + 1] & 0x1f
+      const tier = bytes[av1C.dataStart + 2] >> 7 ? "H" : "M"
+      const bitDepth = (bytes[av1C.dataStart + 2] >> 6) & 1 ? "10" : "08"
+      return {
+        codec: `av01.${profile}.${String(level).padStart(2, "0")}${tier}.${bitDepth}`,
+        description: bytes.slice(av1C.dataStart, av1C.end),
+      }
+    }
+    default:
+      throw new Error(`Unsupported MP4 codec ${entry.type}`)
+  }
+}
+
+const readSampleTable = (view: DataView, stbl: Mp4Box, timescale: number): DemuxedSample[] => {
+  const find = (type: string) => findMp4Box(view, stbl, [type])
+  const stsz = find("stsz")
+  const stco = find("stco")
+  const co64 = find("co64")
+  const stsc = find("stsc")
+  const stts = find("stts")
+  if (!stsz || !stsc || !stts || (!stco && !co64)) {
+    return []
+  }
+
+  const sampleCount = view.getUint32(stsz.dataStart + 8)
+  const fixedSampleSize = view.getUint32(stsz.dataStart + 4)
+  const getSampleSize = (index: number) => fixedSampleSize || view.getUint32(stsz.dataStart + 12 + index * 4)
+
+  const chunkOffsets: number[] = []
+  if (stco) {
+    const count = view.getUint32(stco.dataStart + 4)
+    for (let index = 0; index < count; index += 1) {
+      chunkOffsets.push(view.getUint32(stco.dataStart + 8 + index * 4))
+    }
+  } else if (co64) {
+    const count = view.getUint32(co64.dataStart + 4)
+    for (let index = 0; index < count; index += 1) {
+      chunkOffsets.push(Number(view.getBigUint64(co64.dataStart + 8 + index * 8)))
+    }
+  }
+
+  // Expand stsc runs into a per-sample file offset.
+  const sampleOffsets: number[] = []
+  const stscCount = view.getUint32(stsc.dataStart + 4)
+  for (let entryIndex = 0; entryIndex < stscCount; entryIndex += 1) {
+    const entryOffset = stsc.dataStart + 8 + entryIndex * 12
+    const firstChunk = view.getUint32(entryOffset) - 1
+    const samplesPerChunk = view.getUint32(entryOffset + 4)
+    const lastChunk = entryIndex + 1 < stscCount ? view.getUint32(entryOffset + 12) - 1 : chunkOffsets.length
+
+    for (let chunk = firstChunk; chunk < lastChunk; chunk += 1) {
+      let offset = chunkOffsets[chunk]
+      for (let sample = 0; sample < samplesPerChunk && sampleOffsets.length < sampleCount; sample += 1) {
+        sampleOffsets.push(offset)
+        offset += getSampleSize(sampleOffsets.length - 1)
+      }
+    }
+  }
+
+  const decodeDurations: number[] = []
+  const sttsCount = view.getUint32(stts.dataStart + 4)
+  for (let entryIndex = 0; entryIndex < sttsCount; entryIndex += 1) {
+    const count = view.getUint32(stts.dataStart + 8 + entryIndex * 8)
+    const delta = view.getUint32(stts.dataStart + 12 + entryIndex * 8)
+    for (let index = 0; index < count; index += 1) {
+      decodeDurations.push(delta)
+    }
+  }
+
+  const compositionOffsets: number[] = []
+  const ctts = find("ctts")
+  if (ctts) {
+    const cttsCount = view.getUint32(ctts.dataStart + 4)
+    for (let entryIndex = 0; entryIndex < cttsCount; entryIndex += 1) {
+      const count = view.getUint32(ctts.dataStart + 8 + entryIndex * 8)
+      const offset = view.getInt32(ctts.dataStart + 12 + entryIndex * 8)
+      for (let index = 0; index < count; index += 1) {
+        compositionOffsets.push(offset)
+      }
+    }
+  }
+
+  const syncSamples = new Set<number>()
+  const stss = find("stss")
+  if (stss) {
+    const stssCount = view.getUint32(stss.dataStart + 4)
+    for (let index = 0; index < stssCount; index += 1) {
+      syncSamples.add(view.getUint32(stss.dataStart + 8 + index * 4) - 1)
+    }
+  }
+
+  const samples: DemuxedSample[] = []
+  let decodeTime = 0
+  for (let index = 0; index < sampleOffsets.length; index += 1) {
+    const duration = decodeDurations[index] ?? 0
+    const presentationTime = decodeTime + (compositionOffsets[index] ?? 0)
+
+    samples.push({
+      timestamp: Math.round((presentationTime * MICROSECONDS_PER_SECOND) / timescale),
+      duration: Math.round((duration * MICROSECONDS_PER_SECOND) / timescale),
+      isKey: stss ? syncSamples.has(index) : true,
+      offset: sampleOffsets[index],
+      size: getSampleSize(index),
+    })
+    decodeTime += duration
+  }
+
+  return samples
+}
+
+const readFragments = async (
+  reader: BlobReader,
+  topLevel: Mp4Box[],
+  trackId: number,
+  timescale: number,
+  trackDefaults: Mp4Defaults,
+): Promise<DemuxedSample[]> => {
+  const samples: DemuxedSample[] = []
+  let decodeTime = 0
+
+  for (const moofInFile of topLevel.filter((box) => box.type === "moof")) {
+    const { view, box: moof } = await readMp4BoxBytes(reader, moofInFile)
+    for (const traf of readMp4Boxes(view, moof.dataStart, moof.end).filter((box) => box.type === "traf")) {
+      const children = readMp4Boxes(view, traf.dataStart, traf.end)
+      const tfhd = children.find((box) => box.type === "tfhd")
+      if (!tfhd || view.getUint32(tfhd.dataStart + 4) !== trackId) {
+        continue
+      }
+
+      const tfhdFlags = view.getUint32(tfhd.dataStart) & 0xffffff
+      const defaults = { ...trackDefaults }
+      let cursor = tfhd.dataStart + 8
+      let baseDataOffset = moofInFile.start
+      if (tfhdFlags & 0x1) {
+        baseDataOffset = Number(view.getBigUint64(cursor))
+        cursor += 8
+      }
+      if (tfhdFlags & 0x2) {
+        cursor += 4
+      }
+      if (tfhdFlags & 0x8) {
+        defaults.sampleDuration = view.getUint32(cursor)
+        cursor += 4
+      }
+      if (tfhdFlags & 0x10) {
+        defaults.sampleSize = view.getUint32(cursor)
+        cursor += 4
+      }
+      if (tfhdFlags & 0x20) {
+        defaults.sampleFlags = view.getUint32(cursor)
+      }
+
+      const tfdt = children.find((box) => box.type === "tfdt")
+      if (tfdt) {
+        decodeTime =
+          view.getUint8(tfdt.dataStart) === 1
+            ? Number(view.getBigUint64(tfdt.dataStart + 4))
+            : view.getUint32(tfdt.dataStart + 4)
+      }
+
+      for (const trun of children.filter((box) => box.type === "trun")) {
+        const trunFlags = view.getUint32(trun.dataStart) & 0xffffff
+        const sampleCount = view.getUint32(trun.dataStart + 4)
+        let trunCursor = trun.dataStart + 8
+        let dataOffset = baseDataOffset
+        let firstSampleFlags: number | null = null
+
+        if (trunFlags & 0x1) {
+          dataOffset = baseDataOffset + view.getInt32(trunCursor)
+          trunCursor += 4
+        }
+        if (trunFlags & 0x4) {
+          firstSampleFlags = view.getUint32(trunCursor)
+          trunCursor += 4
+        }
+
+        for (let index = 0; index < sampleCount; index += 1) {
+          let duration = defaults.sampleDuration
+          let size = defaults.sampleSize
+          let flags = index === 0 && firstSampleFlags !== null ? firstSampleFlags : defaults.sampleFlags
+          let compositionOffset = 0
+
+          if (trunFlags & 0x100) {
+            duration = view.getUint32(trunCursor)
+            trunCursor += 4
+          }
+          if (trunFlags & 0x200) {
+            size = view.getUint32(trunCursor)
+            trunCursor += 4
+          }
+          if (trunFlags & 0x400) {
+            flags = view.getUint32(trunCursor)
+            trunCursor += 4
+          }
+          if (trunFlags & 0x800) {
+            compositionOffset = view.getInt32(trunCursor)
+            trunCursor += 4
+          }
+
+          samples.push({
+            timestamp: Math.round(((decodeTime + compositionOffset) * MICROSECONDS_PER_SECOND) / timescale),
+            duration: Math.round((duration * MICROSECONDS_PER_SECOND) / timescale),
+            isKey: (flags & MP4_NON_SYNC_SAMPLE_FLAG) === 0,
+            offset: dataOffset,
+            size,
+          })
+          dataOffset += size
+          decodeTime += duration
+        }
+      }
+    }
+  }
+
+  return samples
+}
+
+const demuxMp4 = async (reader: BlobReader): Promise<DemuxedVideoTrack> => {
+  const topLevel = await readTopLevelMp4Boxes(reader)
+  const moovInFile = topLevel.find((box) => box.type === "moov")
+  if (!moovInFile) {
+    throw new Error("MP4 file has no movie header")
+  }
+
+  // Box offsets below are relative to the `moov` bytes; the sample offsets in its tables are file offsets.
+  const { bytes, view, box: moov } = await readMp4BoxBytes(reader, moovInFile)
+
+  const trak = readMp4Boxes(view, moov.dataStart, moov.end)
+    .filter((box) => box.type === "trak")
+    .find((box) => {
+      const hdlr = findMp4Box(view, box, ["mdia", "hdlr"])
+      return hdlr && readAscii(bytes, hdlr.dataStart + 8, hdlr.dataStart + 12) === "vide"
+    })
+  const tkhd = trak && findMp4Box(view, trak, ["tkhd"])
+  const mdhd = trak && findMp4Box(view, trak, ["mdia", "mdhd"])
+  const stbl = trak && findMp4Box(view, trak, ["mdia", "minf", "stbl"])
+  const stsd = stbl && findMp4Box(view, stbl, ["stsd"])
+  if (!trak || !tkhd || !mdhd || !stbl || !stsd) {
+    throw new Error("No video track found in MP4 file")
+  }
+
+  const trackId = view.getUint32(tkhd.dataStart + (view.getUint8(tkhd.dataStart) === 1 ? 20 : 12))
+  const isMdhdV1 = view.getUint8(mdhd.dataStart) === 1
+  const timescale = view.getUint32(mdhd.dataStart + (isMdhdV1 ? 20 : 12))
+  const mediaDuration = isMdhdV1 ? Number(view.getBigUint64(mdhd.dataStart + 24)) : view.getUint32(mdhd.dataStart + 16)
+
+  const [sampleEntry] = readMp4Boxes(view, stsd.dataStart + 8, stsd.end)
+  if (!sampleEntry) {
+    throw new Error("MP4 video track has no sample description")
+  }
+
+  const trackDefaults: Mp4Defaults = { sampleDuration: 0, sampleSize: 0, sampleFlags: 0 }
+  const mvex = findMp4Box(view, moov, ["mvex"])
+  const trex =
+    mvex &&
+    readMp4Boxes(view, mvex.dataStart, mvex.end)
+      .filter((box) => box.type === "trex")
+      .find((box) => view.getUint32(box.dataStart + 4) === trackId)
+  if (trex) {
+    trackDefaults.sampleDuration = view.getUint32(trex.dataStart + 12)
+    trackDefaults.sampleSize = view.getUint32(trex.dataStart + 16)
+    trackDefaults.sampleFlags = view.getUint32(trex.dataStart + 20)
+  }
+
+  const samples = [
+    ...readSampleTable(view, stbl, timescale),
+    ...(await readFragments(reader, topLevel, trackId, timescale, trackDefaults)),
+  ]
+  // 0xffffffff marks an unknown duration in version 0 headers.
+  const declaredDuration = mediaDuration > 0 && mediaDuration !== 0xffffffff ? mediaDuration / timescale : 0
+
+  return finalizeTrack(
+    {
+      ...toMp4CodecString(view, bytes, sampleEntry),
+      codedWidth: view.getUint16(sampleEntry.dataStart + 24),
+      codedHeight: view.getUint16(sampleEntry.dataStart + 26),
+    },
+    samples,
+    declaredDuration,
+  )
+}
+
+export const demuxVideo = async (blob: Blob): Promise<DemuxedVideoTrack> => {
+  const reader = createBlobReader(blob)
+  const bytes = await reader.read(0, 8)
+  if (bytes.length < 8) {
+    throw new Error("Video file is too small")
+  }
+
+  if (readUnsigned(bytes, 0, 4) === EBML_ID.ebml) {
+    return demuxWebm(reader)
+  }
+
+  if (readAscii(bytes, 4, 8) === "ftyp") {
+    return demuxMp4(reader)
+  }
+
+  throw new Error("Unsupported video container")
+}
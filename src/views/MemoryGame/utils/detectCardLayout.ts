@@ -0,0 +1,144 @@
+/*
+  Automatic board detection
+
+  The face-down board is a strict grid of identical card backs, so card edges show up as a
+  periodic comb in edge projection profiles:
+  - Columns: horizontal brightness gradients (vertical edges) summed per x.
+  - Rows: vertical brightness gradients (horizontal edges) summed per y, restricted to the
+    detected column span so UI text above/below the board does not dominate.
+  For each axis we search the pitch, offset and card size whose 2 * count edge positions collect
+  the strongest profile response. A layout is only returned when the comb clearly stands out
+  from the rest of the profile and passes `isValidCardLayoutPercent`.
+*/
+import { isValidCardLayoutPercent } from "./cardLayout"
+
+type AxisFit = {
+  offset: number
+  cardSize: number
+  pitch: number
+  score: number
+}
+
+// The board has to cover at least this share of the frame on each axis.
+const MIN_BOARD_SPAN_RATIO = { x: 0.3, y: 0.25 }
+// Cards take between these shares of one pitch (card + gap).
+const CARD_SHARE_RANGE = { min: 0.6, max: 0.98 }
+// How much stronger than the average profile value the matched edges must be.
+const MIN_EDGE_CONTRAST = 1.8
+// Columns are re-fitted inside the detected rows; this widens that band slightly.
+const ROW_BAND_MARGIN_RATIO = 0.05
+
+const getLuma = (pixels: Uint8ClampedArray, offset: number): number =>
+  pixels[offset] * 0.299 + pixels[offset + 1] * 0.587 + pixels[offset + 2] * 0.114
+
+const buildEdgeProfile = (
+  pixels: Uint8ClampedArray,
+  width: number,
+  axis: "x" | "y",
+  bounds: { left: number; top: number; right: number; bottom: number },
+): Float32Array => {
+  const profile = new Float32Array(axis === "x" ? width : bounds.bottom)
+
+  for (let y = Math.max(1, bounds.top); y < bounds.bottom; y += 1) {
+    for (let x = Math.max(1, bounds.left); x < bounds.right; x += 1) {
+      const offset = (y * width + x) * 4
+      const neighborOffset = axis === "x" ? offset - 4 : offset - width * 4
+      const gradient = Math.abs(getLuma(pixels, offset) - getLuma(pixels, neighborOffset))
+      profile[axis === "x" ? x : y] += gradient
+    }
+  }
+
+  return profile
+}
+
+// Card edges are rarely exactly one pixel wide after scaling; take the local maximum.
+const dilateProfile = (profile: Float32Array): Float32Array => {
+  const dilated = new Float32Array(profile.length)
+  for (let index = 0; index < profile.length; index += 1) {
+    dilated[index] = Math.max(profile[index - 1] ?? 0, profile[index], profile[index + 1] ?? 0)
+  }
+
+  return dilated
+}
+
+const fitAxis = (profile: Float32Array, count: number, minSpanRatio: number): AxisFit | null => {
+  const length = profile.length
+  const dilated = dilateProfile(profile)
+  const meanValue = profile.reduce((sum, value) => sum + value, 0) / Math.max(1, length)
+  if (meanValue <= 0) {
+    return null
+  }
+
+  const minPitch = Math.max(3, Math.floor((length * minSpanRatio) / count))
+  const maxPitch = Math.floor(length / count)
+  let best: AxisFit | null = null
+
+  for (let pitch = minPitch; pitch <= maxPitch; pitch += 1) {
+    const minCardSize = Math.max(2, Math.floor(pitch * CARD_SHARE_RANGE.min))
+    const maxCardSize = Math.min(pitch, Math.ceil(pitch * CARD_SHARE_RANGE.max))
+
+    for (let cardSize = minCardSize; cardSize <= maxCardSize; cardSize += 1) {
+      const boardSpan = (count - 1) * pitch + cardSize
+
+      for (let offset = 0; offset + boardSpan < length; offset += 1) {
+        let edgeSum = 0
+        for (let index = 0; index < count; index += 1) {
+          const cardStart = offset + index * pitch
+          edgeSum += dilated[cardStart] + dilated[cardStart + cardSize]
+        }
+
+        const score = edgeSum / (count * 2)
+        if (!best || score > best.score) {
+          best = { offset, cardSize, pitch, score }
+        }
+      }
+    }
+  }
+
+  return best && best.score >= meanValue * MIN_EDGE_CONTRAST ? best : null
+}
+
+// Looks for a board with the given number of cards; the grid size itself is not detected.
+export const detectCardLayout = (imageData: ImageData, { cols, rows }: CardGridSize): CardLayoutPercent | null => {
+  const { data, width, height } = imageData
+  const fullFrame = { left: 0, top: 0, right: width, bottom: height }
+
+  const roughColumns = fitAxis(buildEdgeProfile(data, width, "x", fullFrame), cols, MIN_BOARD_SPAN_RATIO.x)
+  if (!roughColumns) {
+    return null
+  }
+
+  const columnSpan = {
+    left: roughColumns.offset,
+    top: 0,
+    right: Math.min(width, roughColumns.offset + (cols - 1) * roughColumns.pitch + roughColumns.cardSize + 1),
+    bottom: height,
+  }
+  const rowFit = fitAxis(buildEdgeProfile(data, width, "y", columnSpan), rows, MIN_BOARD_SPAN_RATIO.y)
+  if (!rowFit) {
+    return null
+  }
+
+  const rowSpan = (rows - 1) * rowFit.pitch + rowFit.cardSize
+  const rowMargin = Math.round(rowSpan * ROW_BAND_MARGIN_RATIO)
+  const rowBand = {
+    left: 0,
+    top: Math.max(0, rowFit.offset - rowMargin),
+    right: width,
+    bottom: Math.min(height, rowFit.offset + rowSpan + rowMargin + 1),
+  }
+  const columnFit = fitAxis(buildEdgeProfile(data, width, "x", rowBand), cols, MIN_BOARD_SPAN_RATIO.x) ?? roughColumns
+
+  const layout: CardLayoutPercent = {
+    cols,
+    rows,
+    left: columnFit.offset / width,
+    top: rowFit.offset / height,
+    cardWidth: columnFit.cardSize / width,
+    cardHeight: rowFit.cardSize / height,
+    gapX: (columnFit.pitch - columnFit.cardSize) / width,
+    gapY: (rowFit.pitch - rowFit.cardSize) / height,
+  }
+
+  return isValidCardLayoutPercent(layout) ? layout : null
+}
@@ -0,0 +1,20 @@
+export const createTimestampedFileName = (prefix: string, extension: string): string => {
+  const timestamp = new Date().toISOString().replace(/[:.]/g, "-")
+  return `${prefix}-${timestamp}.${extension}`
+}
+
+export const downloadFile = (url: string, fileName: string): void => {
+  const anchor = document.createElement("a")
+  anchor.href = url
+  anchor.download = fileName
+  document.body.appendChild(anchor)
+  anchor.click()
+  anchor.remove()
+}
+
+export const downloadBlob = (blob: Blob, fileName: string): void => {
+  const url = URL.createObjectURL(blob)
+  downloadFile(url, fileName)
+  // The download has started by the time the click handler returns; revoke on the next task to be safe.
+  setTimeout(() => URL.revokeObjectURL(url), 0)
+}
@@ -0,0 +1,93 @@
+import { createTimestampedFileName } from "./downloadFile"
+
+type ImageExportFormatInfo = {
+  label: string
+  mimeType: string
+  extension: string
+  isLossy: boolean
+}
+
+export const IMAGE_EXPORT_FORMATS: Record<ImageExportFormat, ImageExportFormatInfo> = {
+  png: { label: "PNG", mimeType: "image/png", extension: "png", isLossy: false },
+  webp: { label: "WebP", mimeType: "image/webp", extension: "webp", isLossy: true },
+  jpeg: { label: "JPEG", mimeType: "image/jpeg", extension: "jpg", isLossy: true },
+}
+
+export const IMAGE_EXPORT_QUALITY_LIMITS = { min: 0.1, max: 1 }
+
+export const DEFAULT_IMAGE_EXPORT_SETTINGS: ImageExportSettings = { format: "png", quality: 0.92 }
+
+export const isValidImageExportSettings = (value: ImageExportSettings): boolean =>
+  Object.hasOwn(IMAGE_EXPORT_FORMATS, value.format) &&
+  typeof value.quality === "number" &&
+  value.quality >= IMAGE_EXPORT_QUALITY_LIMITS.min &&
+  value.quality <= IMAGE_EXPORT_QUALITY_LIMITS.max
+
+const loadImage = async (src: string): Promise<HTMLImageElement> => {
+  const image = new Image()
+  image.src = src
+  await image.decode()
+  return image
+}
+
+// The result is already a PNG; other formats are re-encoded from it.
+export const encodeResultImage = async (
+  result: ProcessingResult,
+  { format, quality }: ImageExportSettings,
+): Promise<Blob> => {
+  const { mimeType } = IMAGE_EXPORT_FORMATS[format]
+  if (mimeType === result.image.type) {
+    return result.image
+  }
+
+  const canvas = document.createElement("canvas")
+  canvas.width = result.frameWidth
+  canvas.height = result.frameHeight
+  const ctx = canvas.getContext("2d")
+  if (!ctx) {
+    throw new Error("Canvas 2D context is not available")
+  }
+
+  ctx.drawImage(await loadImage(result.imageUrl), 0, 0, canvas.width, canvas.height)
+
+  return new Promise<Blob>((resolve, reject) => {
+    canvas.toBlob(
+      (blob) => {
+        // Browsers fall back to PNG for types they cannot encode.
+        if (!blob || blob.type !== mimeType) {
+          reject(new Error(`This browser cannot encode ${IMAGE_EXPORT_FORMATS[format].label} images`))
+          return
+        }
+
+        resolve(blob)
+      },
+      mimeType,
+      quality,
+    )
+  })
+}
+
+// Same naming scheme as recordings and annotated exports.
+export const createResultImageFileName = (format: ImageExportFormat): string =>
+  createTimestampedFileName("memory-game-solution", IMAGE_EXPORT_FORMATS[format].extension)
+
+// Clipboard image support is limited to PNG in current browsers, so the original image is copied.
+export const copyResultImageToClipboard = async (result: ProcessingResult): Promise<void> => {
+  if (typeof ClipboardItem === "undefined" || !navigator.clipboard?.write) {
+    throw new Error("Copying images is not supported in this browser")
+  }
+
+  await navigator.clipboard.write([new ClipboardItem({ [result.image.type]: result.image })])
+}
+
+export const canShareFiles = (): boolean => typeof navigator.canShare === "function"
+
+export const shareResultImage = async (result: ProcessingResult, settings: ImageExportSettings): Promise<void> => {
+  const image = await encodeResultImage(result, settings)
+  const file = new File([image], createResultImageFileName(settings.format), { type: image.type })
+  if (!navigator.canShare?.({ files: [file] })) {
+    throw new Error("Sharing images is not supported on this device")
+  }
+
+  await navigator.share({ files: [file], title: "Memory game solution" })
+}
@@ -0,0 +1,161 @@
+/*
+  Multi-frame cell fusion
+
+  The still frames of one face-up plateau show the same card face with different compression
+  noise (WebM block artifacts, ringing around text). Fusing them gives a cleaner card than any
+  single frame, which matters most at low `scaleDown` resolutions:
+  - Every frame is registered against the reference (the plateau's middle frame) with a
+    translation search over whole pixels, refined to sub-pixel precision by fitting a parabola
+    through the alignment errors around the best offset.
+  - Aligned frames are resampled bilinearly and combined with a per-pixel median, which also
+    drops one-frame outliers such as a passing cursor.
+*/
+
+// Largest shift (pixels) searched in each direction; the card itself does not move during a plateau.
+const MAX_SHIFT = 2
+
+const toGrayscale = ({ data, width, height }: ImageData): Float32Array => {
+  const gray = new Float32Array(width * height)
+  for (let index = 0; index < gray.length; index += 1) {
+    const offset = index * 4
+    gray[index] = (data[offset] + data[offset + 1] + data[offset + 2]) / 3
+  }
+
+  return gray
+}
+
+// Mean absolute difference over the area that stays inside both images for every searched shift.
+const getAlignmentError = (
+  reference: Float32Array,
+  target: Float32Array,
+  width: number,
+  height: number,
+  shiftX: number,
+  shiftY: number,
+): number => {
+  let sum = 0
+  let count = 0
+  for (let y = MAX_SHIFT; y < height - MAX_SHIFT; y += 1) {
+    for (let x = MAX_SHIFT; x < width - MAX_SHIFT; x += 1) {
+      sum += Math.abs(reference[y * width + x] - target[(y + shiftY) * width + x + shiftX])
+      count += 1
+    }
+  }
+
+  return count > 0 ? sum / count : 0
+}
+
+// Vertex of the parabola through (-1, before), (0, center), (1, after); within ±0.5 pixel.
+const getSubPixelOffset = (before: number, center: number, after: number): number => {
+  const curvature = before - 2 * center + after
+  if (curvature <= 0) {
+    return 0
+  }
+
+  return Math.max(-0.5, Math.min(0.5, (before - after) / (2 * curvature)))
+}
+
+const findShift = (reference: Float32Array, target: Float32Array, width: number, height: number) => {
+  let bestX = 0
+  let bestY = 0
+  let bestError = Infinity
+  const errors = new Map<string, number>()
+  const getError = (shiftX: number, shiftY: number): number => {
+    const key = `${shiftX},${shiftY}`
+    const cached = errors.get(key)
+    if (cached !== undefined) {
+      return cached
+    }
+
+    const error = getAlignmentError(reference, target, width, height, shiftX, shiftY)
+    errors.set(key, error)
+    return error
+  }
+
+  for (let shiftY = -MAX_SHIFT; shiftY <= MAX_SHIFT; shiftY += 1) {
+    for (let shiftX = -MAX_SHIFT; shiftX <= MAX_SHIFT; shiftX += 1) {
+      const error = getError(shiftX, shiftY)
+      if (error < bestError) {
+        bestError = error
+        bestX = shiftX
+        bestY = shiftY
+      }
+    }
+  }
+
+  // Refinement needs a neighbour on both sides, so shifts at the search border stay whole pixels.
+  const canRefineX = Math.abs(bestX) < MAX_SHIFT
+  const canRefineY = Math.abs(bestY) < MAX_SHIFT
+
+  return {
+    x: bestX + (canRefineX ? getSubPixelOffset(getError(bestX - 1, bestY), bestError, getError(bestX + 1, bestY)) : 0),
+    y: bestY + (canRefineY ? getSubPixelOffset(getError(bestX, bestY - 1), bestError, getError(bestX, bestY + 1)) : 0),
+  }
+}
+
+// Samples `frame` at (x + shiftX, y + shiftY) with bilinear interpolation, clamped to the edges.
+const resampleShifted = ({ data, width, height }: ImageData, shiftX: number, shiftY: number): Uint8ClampedArray => {
+  const shifted = new Uint8ClampedArray(data.length)
+
+  for (let y = 0; y < height; y += 1) {
+    const sourceY = Math.max(0, Math.min(height - 1, y + shiftY))
+    const top = Math.floor(sourceY)
+    const bottom = Math.min(height - 1, top + 1)
+    const weightY = sourceY - top
+
+    for (let x = 0; x < width; x += 1) {
+      const sourceX = Math.max(0, Math.min(width - 1, x + shiftX))
+      const left = Math.floor(sourceX)
+      const right = Math.min(width - 1, left + 1)
+      const weightX = sourceX - left
+
+      for (let channel = 0; channel < 3; channel += 1) {
+        const topValue =
+          data[(top * width + left) * 4 + channel] * (1 - weightX) + data[(top * width + right) * 4 + channel] * weightX
+        const bottomValue =
+          data[(bottom * width + left) * 4 + channel] * (1 - weightX) +
+          data[(bottom * width + right) * 4 + channel] * weightX
+        shifted[(y * width + x) * 4 + channel] = topValue * (1 - weightY) + bottomValue * weightY
+      }
+      shifted[(y * width + x) * 4 + 3] = 255
+    }
+  }
+
+  return shifted
+}
+
+// `frames[0]` is the reference; all frames are crops of the same cell and have the same size.
+export const fuseCellFrames = (frames: ImageData[]): ImageData => {
+  const [reference] = frames
+  if (frames.length === 1) {
+    return reference
+  }
+
+  const { width, height } = reference
+  const referenceGray = toGrayscale(reference)
+  const alignedFrames = [
+    reference.data,
+    ...frames.slice(1).map((frame) => {
+      const shift = findShift(referenceGray, toGrayscale(frame), width, height)
+      return resampleShifted(frame, shift.x, shift.y)
+    }),
+  ]
+
+  const fused = new ImageData(width, height)
+  const values = new Array<number>(alignedFrames.length)
+  const middle = Math.floor(alignedFrames.length / 2)
+  const isEven = alignedFrames.length % 2 === 0
+
+  for (let offset = 0; offset < fused.data.length; offset += 4) {
+    for (let channel = 0; channel < 3; channel += 1) {
+      alignedFrames.forEach((pixels, index) => {
+        values[index] = pixels[offset + channel]
+      })
+      values.sort((first, second) => first - second)
+      fused.data[offset + channel] = isEven ? (values[middle - 1] + values[middle]) / 2 : values[middle]
+    }
+    fused.data[offset + 3] = 255
+  }
+
+  return fused
+}
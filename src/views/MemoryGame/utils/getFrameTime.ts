@@ -0,0 +1,3 @@
+// Video time (seconds) of a sampled frame; frame indices count from the start of the processed segment.
+export const getFrameTime = ({ firstFrameTime, frameTimes, options }: ProcessingResult, frameIndex: number): number =>
+  frameTimes?.[frameIndex] ?? firstFrameTime + frameIndex / options.fps
@@ -0,0 +1,151 @@
+/*
+  Result history (IndexedDB)
+
+  Every finished run is stored as one record: the result without its data URLs (the PNG blob is
+  kept instead), optionally the source video, and the byte size counted against the quota. Blobs
+  are stored as-is, so recordings survive after their object URLs are revoked.
+  - Records are keyed by id; the `createdAt` index gives the eviction order.
+  - After each insert the oldest records are removed until the total size fits the quota. The new
+    record itself is never evicted, even when it alone exceeds the quota.
+  - The database connection is opened once and shared.
+*/
+import { readBlobAsDataUrl } from "./readBlobAsDataUrl"
+
+const DATABASE_NAME = "memory-game"
+const DATABASE_VERSION = 1
+const HISTORY_STORE = "history"
+const CREATED_AT_INDEX = "createdAt"
+
+const BYTES_PER_MEGABYTE = 1024 * 1024
+
+export const HISTORY_QUOTA_MB_LIMITS = { min: 10, max: 10_000 }
+
+export const DEFAULT_HISTORY_SETTINGS: HistorySettings = {
+  isEnabled: true,
+  isSourceVideoStored: true,
+  quotaMb: 500,
+}
+
+export const isValidHistoryQuotaMb = (value: unknown): value is number =>
+  typeof value === "number" &&
+  Number.isInteger(value) &&
+  value >= HISTORY_QUOTA_MB_LIMITS.min &&
+  value <= HISTORY_QUOTA_MB_LIMITS.max
+
+export const isValidHistorySettings = (value: HistorySettings): boolean =>
+  typeof value.isEnabled === "boolean" &&
+  typeof value.isSourceVideoStored === "boolean" &&
+  isValidHistoryQuotaMb(value.quotaMb)
+
+let databasePromise: Promise<IDBDatabase> | null = null
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  databasePromise ??= new Promise<IDBDatabase>((resolve, reject) => {
+    if (typeof indexedDB === "undefined") {
+      reject(new Error("IndexedDB is not available in this browser"))
+      return
+    }
+
+    const request = indexedDB.open(DATABASE_NAME, DATABASE_VERSION)
+    request.onupgradeneeded = () => {
+      const store = request.result.createObjectStore(HISTORY_STORE, { keyPath: "id" })
+      store.createIndex(CREATED_AT_INDEX, "createdAt")
+    }
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error ?? new Error("Unable to open the history database"))
+    request.onblocked = () => reject(new Error("The history database is in use by another tab"))
+  }).catch((error: unknown) => {
+    // Allow a later call to try again (e.g. after the blocking tab was closed).
+    databasePromise = null
+    throw error
+  })
+
+  return databasePromise
+}
+
+// Runs `run` inside one transaction and resolves once it has committed.
+const withHistoryStore = async <T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore, setResult: (value: T) => void) => void,
+): Promise<T | undefined> => {
+  const database = await openDatabase()
+
+  return new Promise<T | undefined>((resolve, reject) => {
+    const transaction = database.transaction(HISTORY_STORE, mode)
+    let result: T | undefined
+
+    transaction.oncomplete = () => resolve(result)
+    transaction.onerror = () => reject(transaction.error ?? new Error("History transaction failed"))
+    transaction.onabort = () => reject(transaction.error ?? new Error("History transaction was aborted"))
+
+    run(transaction.objectStore(HISTORY_STORE), (value) => {
+      result = value
+    })
+  })
+}
+
+export const getHistoryQuotaBytes = ({ quotaMb }: HistorySettings): number => quotaMb * BYTES_PER_MEGABYTE
+
+export const createHistoryEntry = (result: ProcessingResult, sourceVideo: Blob | null): HistoryEntry => ({
+  id: crypto.randomUUID(),
+  createdAt: Date.now(),
+  name: sourceVideo instanceof File ? sourceVideo.name : null,
+  result: { ...result, imageUrl: undefined, diagnostics: undefined },
+  sourceVideo,
+  size: result.image.size + (sourceVideo?.size ?? 0),
+})
+
+// Newest first.
+export const listHistoryEntries = async (): Promise<HistoryEntry[]> => {
+  const entries = await withHistoryStore<HistoryEntry[]>("readonly", (store, setResult) => {
+    const request = store.index(CREATED_AT_INDEX).getAll()
+    request.onsuccess = () => setResult(request.result)
+  })
+
+  return (entries ?? []).reverse()
+}
+
+// Removes the oldest entries until the total fits `quotaBytes`; `keepId` is never removed.
+const evictOldestEntries = (store: IDBObjectStore, quotaBytes: number, keepId?: string): void => {
+  const request = store.index(CREATED_AT_INDEX).getAll()
+  request.onsuccess = () => {
+    const entries: HistoryEntry[] = request.result
+    let totalSize = entries.reduce((sum, entry) => sum + entry.size, 0)
+
+    for (const entry of entries) {
+      if (totalSize <= quotaBytes) {
+        return
+      }
+
+      if (entry.id !== keepId) {
+        store.delete(entry.id)
+        totalSize -= entry.size
+      }
+    }
+  }
+}
+
+export const addHistoryEntry = async (entry: HistoryEntry, quotaBytes: number): Promise<void> => {
+  await withHistoryStore("readwrite", (store) => {
+    store.put(entry).onsuccess = () => evictOldestEntries(store, quotaBytes, entry.id)
+  })
+}
+
+export const enforceHistoryQuota = async (quotaBytes: number): Promise<void> => {
+  await withHistoryStore("readwrite", (store) => evictOldestEntries(store, quotaBytes))
+}
+
+export const deleteHistoryEntry = async (id: string): Promise<void> => {
+  await withHistoryStore("readwrite", (store) => store.delete(id))
+}
+
+export const clearHistory = async (): Promise<void> => {
+  await withHistoryStore("readwrite", (store) => store.clear())
+}
+
+// Stored results have no data URLs or debug images; the image URL is rebuilt from the blob.
+export const restoreHistoryResult = async ({ result }: HistoryEntry): Promise<ProcessingResult> => ({
+  ...result,
+  imageUrl: await readBlobAsDataUrl(result.image),
+  diagnostics: null,
+})
@@ -1,2 +1,46 @@
+export { type CalibrationFrame, captureVideoElementFrame, captureVideoFileFrame } from "./captureCalibrationFrame"
+export {
+  CARD_GRID_SIZE_LIMITS,
+  DEFAULT_CARD_LAYOUT_PERCENT,
+  fitCardLayoutToBounds,
+  getCardLayoutBounds,
+  getCardLayoutCells,
+  isValidCardGridSize,
+  setCardLayoutCardSize,
+  setCardLayoutGridSize,
+} from "./cardLayout"
+export { createBatchArchive } from "./createBatchArchive"
+export { createLiveProcessingSession } from "./createLiveProcessingSession"
 export { createMediaRecorderSession } from "./createMediaRecorderSession"
+export { createTimestampedFileName, downloadBlob, downloadFile } from "./downloadFile"
+export {
+  addHistoryEntry,
+  clearHistory,
+  createHistoryEntry,
+  deleteHistoryEntry,
+  enforceHistoryQuota,
+  getHistoryQuotaBytes,
+  HISTORY_QUOTA_MB_LIMITS,
+  isValidHistoryQuotaMb,
+  listHistoryEntries,
+  restoreHistoryResult,
+} from "./historyStore"
+export { overrideResultCell, renderFrameCellUrl } from "./overrideResultCell"
+export {
+  canShareFiles,
+  copyResultImageToClipboard,
+  createResultImageFileName,
+  encodeResultImage,
+  IMAGE_EXPORT_FORMATS,
+  IMAGE_EXPORT_QUALITY_LIMITS,
+  shareResultImage,
+} from "./exportResultImage"
+export { getFrameTime } from "./getFrameTime"
+export { getPairColor } from "./pairColors"
+export { DEFAULT_PROCESSING_OPTIONS, PROCESSING_OPTION_FIELDS, resolveProcessingOptions } from "./processingOptions"
+export { createProcessingReport, createProcessingReportUrl } from "./processingReport"
 export { processVideoToImage } from "./processVideoToImage"
+export { renderAnnotatedImage } from "./renderAnnotatedImage"
+export { AUTO_STOP_SECONDS_LIMITS, isValidAutoStopSeconds, loadSettings, saveSettings } from "./settingsStore"
+export { createVideoFrameProvider, type VideoFrameProvider } from "./videoFrameProvider"
+export { validateVideoFile } from "./validateVideoFile"
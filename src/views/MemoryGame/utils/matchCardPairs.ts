@@ -0,0 +1,163 @@
+/*
+  Card pair matching
+
+  Each cell of the merged result holds the best revealed face of one card. Matching pairs share
+  the same artwork, so we compare every cell against every other cell with two cheap signals:
+  - Perceptual difference hash (dHash): robust to small brightness/compression changes.
+  - Color histogram intersection: separates cards with similar shapes but different palettes.
+
+  Pairs are then assigned greedily from the most similar to the least similar couple.
+*/
+const HASH_WIDTH = 9
+const HASH_HEIGHT = 8
+const HASH_BITS = (HASH_WIDTH - 1) * HASH_HEIGHT
+const HISTOGRAM_BINS_PER_CHANNEL = 4
+const HISTOGRAM_SIZE = HISTOGRAM_BINS_PER_CHANNEL ** 3
+const HASH_WEIGHT = 0.5
+const HISTOGRAM_WEIGHT = 0.5
+// Similarity lead over the runner-up match at which a pair is considered fully confident.
+const PAIR_CONFIDENCE_MARGIN = 0.15
+
+type CellSignature = {
+  hash: Uint8Array
+  histogram: Float32Array
+}
+
+const clamp = (value: number, min: number, max: number): number => Math.max(min, Math.min(value, max))
+
+const buildCellSignature = (pixels: Uint8ClampedArray, imageWidth: number, rect: Rect): CellSignature => {
+  const rectWidth = Math.max(1, rect.right - rect.left)
+  const rectHeight = Math.max(1, rect.bottom - rect.top)
+  const hashGrid = new Float32Array(HASH_WIDTH * HASH_HEIGHT)
+  const hashGridCounts = new Uint32Array(HASH_WIDTH * HASH_HEIGHT)
+  const histogram = new Float32Array(HISTOGRAM_SIZE)
+  const binSize = 256 / HISTOGRAM_BINS_PER_CHANNEL
+
+  for (let y = rect.top; y < rect.bottom; y += 1) {
+    const gridY = Math.min(HASH_HEIGHT - 1, Math.floor(((y - rect.top) / rectHeight) * HASH_HEIGHT))
+
+    for (let x = rect.left; x < rect.right; x += 1) {
+      const offset = (y * imageWidth + x) * 4
+      const red = pixels[offset]
+      const green = pixels[offset + 1]
+      const blue = pixels[offset + 2]
+      const gridX = Math.min(HASH_WIDTH - 1, Math.floor(((x - rect.left) / rectWidth) * HASH_WIDTH))
+      const gridIndex = gridY * HASH_WIDTH + gridX
+
+      hashGrid[gridIndex] += (red + green + blue) / 3
+      hashGridCounts[gridIndex] += 1
+
+      const binIndex =
+        Math.floor(red / binSize) * HISTOGRAM_BINS_PER_CHANNEL * HISTOGRAM_BINS_PER_CHANNEL +
+        Math.floor(green / binSize) * HISTOGRAM_BINS_PER_CHANNEL +
+        Math.floor(blue / binSize)
+      histogram[binIndex] += 1
+    }
+  }
+
+  for (let index = 0; index < hashGrid.length; index += 1) {
+    hashGrid[index] /= Math.max(1, hashGridCounts[index])
+  }
+
+  // dHash: one bit per horizontal neighbor comparison on the downsampled grayscale grid.
+  const hash = new Uint8Array(HASH_BITS)
+  for (let y = 0; y < HASH_HEIGHT; y += 1) {
+    for (let x = 0; x < HASH_WIDTH - 1; x += 1) {
+      const gridIndex = y * HASH_WIDTH + x
+      hash[y * (HASH_WIDTH - 1) + x] = hashGrid[gridIndex] > hashGrid[gridIndex + 1] ? 1 : 0
+    }
+  }
+
+  const pixelCount = rectWidth * rectHeight
+  for (let index = 0; index < histogram.length; index += 1) {
+    histogram[index] /= pixelCount
+  }
+
+  return { hash, histogram }
+}
+
+const getSignatureSimilarity = (first: CellSignature, second: CellSignature): number => {
+  let hammingDistance = 0
+  for (let bit = 0; bit < HASH_BITS; bit += 1) {
+    if (first.hash[bit] !== second.hash[bit]) {
+      hammingDistance += 1
+    }
+  }
+
+  let histogramIntersection = 0
+  for (let bin = 0; bin < HISTOGRAM_SIZE; bin += 1) {
+    histogramIntersection += Math.min(first.histogram[bin], second.histogram[bin])
+  }
+
+  const hashDistance = hammingDistance / HASH_BITS
+  const histogramDistance = 1 - histogramIntersection
+
+  return clamp(1 - (HASH_WEIGHT * hashDistance + HISTOGRAM_WEIGHT * histogramDistance), 0, 1)
+}
+
+// `pairableCells` limits matching to cells that show a card face; face-down backs would all match.
+export const matchCardPairs = (
+  pixels: Uint8ClampedArray,
+  imageWidth: number,
+  regions: GridCellRegion[],
+  pairableCells: number[] = regions.map((_, cellIndex) => cellIndex),
+): CardPair[] => {
+  const cellCount = regions.length
+  const signatures = regions.map(({ evalRect }) => buildCellSignature(pixels, imageWidth, evalRect))
+  const similarity: number[][] = Array.from({ length: cellCount }, () => new Array(cellCount).fill(0))
+  const couples: { first: number; second: number; similarity: number }[] = []
+
+  for (let firstIndex = 0; firstIndex < pairableCells.length; firstIndex += 1) {
+    for (let secondIndex = firstIndex + 1; secondIndex < pairableCells.length; secondIndex += 1) {
+      const first = pairableCells[firstIndex]
+      const second = pairableCells[secondIndex]
+      const value = getSignatureSimilarity(signatures[first], signatures[second])
+      similarity[first][second] = value
+      similarity[second][first] = value
+      couples.push({ first, second, similarity: value })
+    }
+  }
+
+  couples.sort((left, right) => right.similarity - left.similarity)
+
+  const assigned = new Array<boolean>(cellCount).fill(false)
+  const pairs: CardPair[] = []
+
+  for (const couple of couples) {
+    if (assigned[couple.first] || assigned[couple.second]) {
+      continue
+    }
+
+    assigned[couple.first] = true
+    assigned[couple.second] = true
+
+    // Confidence reflects how clearly this couple beats any other candidate for either card.
+    let runnerUpSimilarity = 0
+    for (const other of pairableCells) {
+      if (other === couple.first || other === couple.second) {
+        continue
+      }
+
+      runnerUpSimilarity = Math.max(
+        runnerUpSimilarity,
+        similarity[couple.first][other],
+        similarity[couple.second][other],
+      )
+    }
+
+    pairs.push({
+      pairIndex: pairs.length,
+      cells: [couple.first, couple.second],
+      similarity: couple.similarity,
+      confidence: clamp((couple.similarity - runnerUpSimilarity) / PAIR_CONFIDENCE_MARGIN, 0, 1),
+    })
+
+    if (pairs.length === Math.floor(pairableCells.length / 2)) {
+      break
+    }
+  }
+
+  // Number pairs in reading order (top-left first) so labels are easy to scan.
+  pairs.sort((left, right) => left.cells[0] - right.cells[0])
+  return pairs.map((pair, pairIndex) => ({ ...pair, pairIndex }))
+}
@@ -0,0 +1,108 @@
+/*
+  Manual frame override
+
+  Replaces one cell of a finished result with the same area of another frame, on the main thread:
+  the frame is scaled to the result size, the cell is sharpened like the worker does, and pairs are
+  matched again because the new card face can change them.
+*/
+import { matchCardPairs } from "./matchCardPairs"
+import { readBlobAsDataUrl } from "./readBlobAsDataUrl"
+import { applySharpen } from "./sharpenImage"
+
+type OverrideResultCellArgs = {
+  result: ProcessingResult
+  cellIndex: number
+  frameIndex: number
+  frame: CanvasImageSource
+}
+
+const loadImage = async (src: string): Promise<HTMLImageElement> => {
+  const image = new Image()
+  image.src = src
+  await image.decode()
+  return image
+}
+
+const createCanvasContext = (width: number, height: number): CanvasRenderingContext2D => {
+  const canvas = document.createElement("canvas")
+  canvas.width = width
+  canvas.height = height
+
+  const ctx = canvas.getContext("2d", { willReadFrequently: true })
+  if (!ctx) {
+    throw new Error("Canvas 2D context is not available")
+  }
+
+  return ctx
+}
+
+// Draws the cell of `frame` at result resolution; also used for the scrubber preview.
+export const renderFrameCell = (
+  frame: CanvasImageSource,
+  { frameWidth, frameHeight, cellRects, options }: ProcessingResult,
+  cellIndex: number,
+): ImageData => {
+  const rect = cellRects[cellIndex]
+  const ctx = createCanvasContext(frameWidth, frameHeight)
+  ctx.drawImage(frame, 0, 0, frameWidth, frameHeight)
+
+  const cell = ctx.getImageData(rect.left, rect.top, rect.right - rect.left, rect.bottom - rect.top)
+  applySharpen(cell, cell.width, cell.height, options.sharpenStrength)
+  return cell
+}
+
+export const renderFrameCellUrl = (frame: CanvasImageSource, result: ProcessingResult, cellIndex: number): string => {
+  const cell = renderFrameCell(frame, result, cellIndex)
+  const ctx = createCanvasContext(cell.width, cell.height)
+  ctx.putImageData(cell, 0, 0)
+  return ctx.canvas.toDataURL("image/png")
+}
+
+export const overrideResultCell = async ({
+  result,
+  cellIndex,
+  frameIndex,
+  frame,
+}: OverrideResultCellArgs): Promise<ProcessingResult> => {
+  const { frameWidth, frameHeight, cellRects, evalRects } = result
+  const rect = cellRects[cellIndex]
+  if (!rect) {
+    throw new Error(`Card ${cellIndex + 1} does not exist`)
+  }
+
+  const ctx = createCanvasContext(frameWidth, frameHeight)
+  ctx.drawImage(await loadImage(result.imageUrl), 0, 0)
+  ctx.putImageData(renderFrameCell(frame, result, cellIndex), rect.left, rect.top)
+
+  const cells = result.cells.map(
+    (cell, index): CellResult =>
+      index === cellIndex
+        ? { ...cell, status: "revealed", frameIndex, fusedFrameCount: 1, isManualOverride: true }
+        : cell,
+  )
+  const pixels = ctx.getImageData(0, 0, frameWidth, frameHeight).data
+  const regions = cellRects.map((copyRect, index) => ({
+    copyRect,
+    evalRect: evalRects[index],
+    evalPixelCount: Math.max(
+      1,
+      (evalRects[index].right - evalRects[index].left) * (evalRects[index].bottom - evalRects[index].top),
+    ),
+  }))
+  const pairableCells = cells.flatMap(({ status }, index) => (status === "missing" ? [] : [index]))
+
+  const image = await new Promise<Blob>((resolve, reject) => {
+    ctx.canvas.toBlob(
+      (blob) => (blob ? resolve(blob) : reject(new Error("Unable to encode result image"))),
+      "image/png",
+    )
+  })
+
+  return {
+    ...result,
+    image,
+    imageUrl: await readBlobAsDataUrl(image),
+    cells,
+    pairs: matchCardPairs(pixels, frameWidth, regions, pairableCells),
+  }
+}
@@ -0,0 +1,17 @@
+// Distinct hues for pair labels. Plain hex values so they work both in Chakra props and on canvas.
+const PAIR_COLORS = [
+  "#e53e3e",
+  "#dd6b20",
+  "#d69e2e",
+  "#38a169",
+  "#319795",
+  "#3182ce",
+  "#00b5d8",
+  "#805ad5",
+  "#d53f8c",
+  "#2f855a",
+  "#744210",
+  "#1a365d",
+]
+
+export const getPairColor = (pairIndex: number): string => PAIR_COLORS[pairIndex % PAIR_COLORS.length]
@@ -0,0 +1,112 @@
+import { analyzeVideoFrames } from "./analyzeVideoFrames"
+import { createLiveFrameMerger } from "./createLiveFrameMerger"
+import type { DecodedFrame, WorkerRequest, WorkerResponse } from "./processingWorkerProtocol"
+
+type PendingFrame = {
+  resolve: (frame: DecodedFrame) => void
+  reject: (error: Error) => void
+}
+
+// Re-encoding the preview is comparatively slow, so only refresh it every few merged frames.
+const LIVE_PREVIEW_INTERVAL = 5
+
+const pendingFrames = new Map<number, PendingFrame>()
+let nextRequestId = 0
+let liveMerger: ReturnType<typeof createLiveFrameMerger> | null = null
+
+const post = (message: WorkerResponse): void => {
+  self.postMessage(message)
+}
+
+// Decoding stays on the main thread (frame providers need the DOM); ask it for one frame at a time.
+const requestFrame = (time: number): Promise<DecodedFrame> =>
+  new Promise((resolve, reject) => {
+    const requestId = nextRequestId
+    nextRequestId += 1
+    pendingFrames.set(requestId, { resolve, reject })
+    post({ type: "frame-request", requestId, time })
+  })
+
+const getErrorMessage = (error: unknown): string => (error instanceof Error ? error.message : "Unknown error")
+
+const handleLiveFrame = async (frame: DecodedFrame, time: number): Promise<void> => {
+  if (!liveMerger) {
+    frame.close()
+    return
+  }
+
+  const merger = liveMerger
+  try {
+    const merged = merger.addFrame(frame, time)
+    // Acknowledge before encoding the preview so capture is not throttled by it.
+    post({ type: "live-frame-done" })
+
+    if (merged && merger.getMergedFrameCount() % LIVE_PREVIEW_INTERVAL === 1) {
+      post({ type: "live-preview", result: await merger.renderPreview() })
+    }
+  } catch (error) {
+    liveMerger = null
+    post({ type: "error", message: getErrorMessage(error) })
+  }
+}
+
+const settleFrame = (requestId: number, settle: (pending: PendingFrame) => void): void => {
+  const pending = pendingFrames.get(requestId)
+  if (!pending) {
+    return
+  }
+
+  pendingFrames.delete(requestId)
+  settle(pending)
+}
+
+self.onmessage = async (event: MessageEvent<WorkerRequest>) => {
+  const message = event.data
+
+  switch (message.type) {
+    case "frame":
+      settleFrame(message.requestId, ({ resolve }) => resolve(message.frame))
+      return
+    case "frame-error":
+      settleFrame(message.requestId, ({ reject }) => reject(new Error(message.message)))
+      return
+    case "start":
+      try {
+        const result = await analyzeVideoFrames({
+          duration: message.duration,
+          videoWidth: message.videoWidth,
+          videoHeight: message.videoHeight,
+          readFrame: requestFrame,
+          options: message.options,
+          cardLayout: message.cardLayout,
+          autoDetectLayout: message.autoDetectLayout,
+          collectDiagnostics: message.collectDiagnostics,
+          onProgress: (current, total) => post({ type: "progress", current, total }),
+        })
+        post({ type: "result", result })
+      } catch (error) {
+        post({ type: "error", message: getErrorMessage(error) })
+      }
+      return
+    case "live-start":
+      liveMerger = createLiveFrameMerger(message)
+      return
+    case "live-frame":
+      await handleLiveFrame(message.frame, message.time)
+      return
+    case "live-finish": {
+      const merger = liveMerger
+      liveMerger = null
+
+      try {
+        if (!merger) {
+          throw new Error("No frames were captured while recording")
+        }
+
+        post({ type: "result", result: await merger.finish() })
+      } catch (error) {
+        post({ type: "error", message: getErrorMessage(error) })
+      }
+    }
+  }
+}
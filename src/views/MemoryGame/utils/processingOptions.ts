@@ -0,0 +1,95 @@
+type ProcessingOptionField = {
+  key: keyof ProcessingOptions
+  label: string
+  min: number
+  max: number
+  step: number
+  isInteger?: boolean
+}
+
+export const DEFAULT_PROCESSING_OPTIONS: ProcessingOptions = {
+  fps: 10,
+  scanFps: 2,
+  baselineMedianFrames: 1,
+  scaleDown: 0.5,
+  analysisScaleDown: 0.25,
+  threshold: 30,
+  motionThreshold: 14,
+  minBaselineRatio: 0.015,
+  maxBaselineRatio: 0.35,
+  minMotionRatio: 0.005,
+  minActiveStreak: 2,
+  marginFrames: 2,
+  cardMinDiffRatio: 0.08,
+  cardMaxLocalMotionRatio: 0.25,
+  fusedFrameCount: 3,
+  sharpenStrength: 0.35,
+}
+
+// Ordered as shown in the "Advanced" settings section.
+export const PROCESSING_OPTION_FIELDS: ProcessingOptionField[] = [
+  { key: "fps", label: "Sampled frames per second", min: 1, max: 30, step: 1, isInteger: true },
+  { key: "scanFps", label: "Coarse scan frames per second", min: 0.25, max: 10, step: 0.25 },
+  {
+    key: "baselineMedianFrames",
+    label: "Baseline median frames (1 = off)",
+    min: 1,
+    max: 9,
+    step: 1,
+    isInteger: true,
+  },
+  { key: "scaleDown", label: "Output scale", min: 0.1, max: 1, step: 0.05 },
+  { key: "analysisScaleDown", label: "Analysis scale", min: 0.05, max: 1, step: 0.05 },
+  { key: "threshold", label: "Changed pixel threshold (0-255)", min: 1, max: 255, step: 1, isInteger: true },
+  { key: "motionThreshold", label: "Motion pixel threshold (0-255)", min: 1, max: 255, step: 1, isInteger: true },
+  { key: "minBaselineRatio", label: "Min changed board ratio", min: 0, max: 1, step: 0.005 },
+  { key: "maxBaselineRatio", label: "Max changed board ratio", min: 0, max: 1, step: 0.01 },
+  { key: "minMotionRatio", label: "Min motion ratio", min: 0, max: 1, step: 0.001 },
+  { key: "minActiveStreak", label: "Min active streak (frames)", min: 1, max: 30, step: 1, isInteger: true },
+  { key: "marginFrames", label: "Active range margin (frames)", min: 0, max: 30, step: 1, isInteger: true },
+  { key: "cardMinDiffRatio", label: "Min revealed card ratio", min: 0, max: 1, step: 0.01 },
+  { key: "cardMaxLocalMotionRatio", label: "Max card motion ratio", min: 0, max: 1, step: 0.01 },
+  { key: "fusedFrameCount", label: "Frames fused per card", min: 1, max: 9, step: 1, isInteger: true },
+  { key: "sharpenStrength", label: "Sharpen strength", min: 0, max: 2, step: 0.05 },
+]
+
+const getFieldError = (field: ProcessingOptionField, value: unknown): string | null => {
+  if (typeof value !== "number" || !Number.isFinite(value)) {
+    return `${field.label} must be a number`
+  }
+
+  if (value < field.min || value > field.max) {
+    return `${field.label} must be between ${field.min} and ${field.max}`
+  }
+
+  if (field.isInteger && !Number.isInteger(value)) {
+    return `${field.label} must be a whole number`
+  }
+
+  return null
+}
+
+// Fill missing options with defaults and reject anything the pipeline cannot work with.
+export const resolveProcessingOptions = (options: Partial<ProcessingOptions> = {}): ProcessingOptions => {
+  const resolved = { ...DEFAULT_PROCESSING_OPTIONS }
+
+  for (const field of PROCESSING_OPTION_FIELDS) {
+    const value = options[field.key]
+    if (value === undefined) {
+      continue
+    }
+
+    const error = getFieldError(field, value)
+    if (error) {
+      throw new Error(error)
+    }
+
+    resolved[field.key] = value
+  }
+
+  if (resolved.minBaselineRatio >= resolved.maxBaselineRatio) {
+    throw new Error("Min changed board ratio must be lower than max changed board ratio")
+  }
+
+  return resolved
+}
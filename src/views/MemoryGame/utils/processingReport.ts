@@ -0,0 +1,15 @@
+// Images are exported on their own, so the report only describes them (undefined fields are dropped by JSON).
+export const createProcessingReport = (result: ProcessingResult): string =>
+  JSON.stringify(
+    {
+      ...result,
+      image: { type: result.image.type, size: result.image.size },
+      imageUrl: undefined,
+      diagnostics: undefined,
+    },
+    null,
+    2,
+  )
+
+export const createProcessingReportUrl = (result: ProcessingResult): string =>
+  `data:application/json;charset=utf-8,${encodeURIComponent(createProcessingReport(result))}`
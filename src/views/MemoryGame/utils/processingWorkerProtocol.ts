@@ -0,0 +1,47 @@
+// Messages exchanged between the main thread (`processVideoToImage`, `createLiveProcessingSession`)
+// and `processVideo.worker`.
+// Images travel as Blobs; URLs are created on the main thread (see toProcessingResult).
+export type AnalysisDiagnostics = {
+  baselineImage: Blob
+  candidateImages: Blob[][]
+}
+
+export type AnalysisResult = Omit<ProcessingResult, "runId" | "imageUrl" | "diagnostics"> & {
+  diagnostics: AnalysisDiagnostics | null
+}
+
+export type DecodedFrame = ImageBitmap | VideoFrame
+
+export type WorkerRequest =
+  | {
+      type: "start"
+      duration: number
+      videoWidth: number
+      videoHeight: number
+      options: ProcessingOptions
+      cardLayout: CardLayoutPercent
+      autoDetectLayout: boolean
+      collectDiagnostics: boolean
+    }
+  | { type: "frame"; requestId: number; frame: DecodedFrame }
+  | { type: "frame-error"; requestId: number; message: string }
+  | {
+      type: "live-start"
+      videoWidth: number
+      videoHeight: number
+      options: ProcessingOptions
+      cardLayout: CardLayoutPercent
+      autoDetectLayout: boolean
+      collectDiagnostics: boolean
+    }
+  // `time`: seconds since the recording started.
+  | { type: "live-frame"; frame: DecodedFrame; time: number }
+  | { type: "live-finish" }
+
+export type WorkerResponse =
+  | { type: "frame-request"; requestId: number; time: number }
+  | { type: "progress"; current: number; total: number }
+  | { type: "live-frame-done" }
+  | { type: "live-preview"; result: AnalysisResult }
+  | { type: "result"; result: AnalysisResult }
+  | { type: "error"; message: string }
@@ -0,0 +1,7 @@
+export const readBlobAsDataUrl = (blob: Blob): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader()
+    reader.onload = () => resolve(String(reader.result))
+    reader.onerror = () => reject(new Error("Unable to read result image"))
+    reader.readAsDataURL(blob)
+  })
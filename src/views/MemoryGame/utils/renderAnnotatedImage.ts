@@ -0,0 +1,77 @@
+import { getPairColor } from "./pairColors"
+
+type RenderAnnotatedImageArgs = {
+  markedPairs: [number, number][]
+  result: ProcessingResult
+}
+
+const MARKED_CELL_DIM_ALPHA = 0.55
+
+const loadImage = async (src: string): Promise<HTMLImageElement> => {
+  const image = new Image()
+  image.src = src
+  await image.decode()
+  return image
+}
+
+const drawLabel = (ctx: CanvasRenderingContext2D, rect: Rect, label: string, color: string): void => {
+  const fontSize = Math.max(10, Math.round((rect.bottom - rect.top) * 0.14))
+  ctx.font = `bold ${fontSize}px sans-serif`
+  const labelWidth = Math.max(fontSize * 1.4, ctx.measureText(label).width + fontSize * 0.6)
+  const labelHeight = fontSize * 1.4
+  const x = rect.left + 3
+  const y = rect.top + 3
+
+  ctx.fillStyle = color
+  ctx.beginPath()
+  ctx.roundRect(x, y, labelWidth, labelHeight, labelHeight / 2)
+  ctx.fill()
+
+  ctx.fillStyle = "#ffffff"
+  ctx.textAlign = "center"
+  ctx.textBaseline = "middle"
+  ctx.fillText(label, x + labelWidth / 2, y + labelHeight / 2)
+}
+
+// Draw the solution with detected pair labels and the user's manual matches, as shown in the result panel.
+export const renderAnnotatedImage = async ({ markedPairs, result }: RenderAnnotatedImageArgs): Promise<string> => {
+  const image = await loadImage(result.imageUrl)
+  const canvas = document.createElement("canvas")
+  canvas.width = result.frameWidth
+  canvas.height = result.frameHeight
+
+  const ctx = canvas.getContext("2d")
+  if (!ctx) {
+    throw new Error("Canvas 2D context is not available")
+  }
+
+  ctx.drawImage(image, 0, 0, canvas.width, canvas.height)
+  ctx.lineWidth = 2
+
+  const markedCells = new Set(markedPairs.flat())
+  result.pairs.forEach((pair) => {
+    const color = getPairColor(pair.pairIndex)
+    pair.cells.forEach((cellIndex) => {
+      if (markedCells.has(cellIndex)) {
+        return
+      }
+
+      const rect = result.cellRects[cellIndex]
+      ctx.strokeStyle = color
+      ctx.strokeRect(rect.left + 1, rect.top + 1, rect.right - rect.left - 2, rect.bottom - rect.top - 2)
+      drawLabel(ctx, rect, String(pair.pairIndex + 1), color)
+    })
+  })
+
+  markedPairs.forEach((cells, markIndex) => {
+    const color = getPairColor(markIndex)
+    cells.forEach((cellIndex) => {
+      const rect = result.cellRects[cellIndex]
+      ctx.fillStyle = `rgba(0, 0, 0, ${MARKED_CELL_DIM_ALPHA})`
+      ctx.fillRect(rect.left, rect.top, rect.right - rect.left, rect.bottom - rect.top)
+      drawLabel(ctx, rect, `✓${markIndex + 1}`, color)
+    })
+  })
+
+  return canvas.toDataURL("image/png")
+}
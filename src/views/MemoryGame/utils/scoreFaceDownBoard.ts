@@ -0,0 +1,81 @@
+/*
+  Face-down board score
+
+  A face-down board shows the same card back in every cell, so each cell of the layout is reduced
+  to a coarse grid of block brightnesses and compared with the per-block median over all cells.
+  The score is the share of cells that match the median: revealed cards, popups and screens
+  without the board lower it.
+  - Blank frames (loading screens, fades to black) would match trivially, so frames without
+    enough overall contrast score 0.
+*/
+
+// Blocks per cell side; coarse enough to tolerate a slightly misaligned layout.
+const SAMPLE_GRID_SIZE = 6
+// Mean block brightness difference (0-255) up to which a cell still shows the card back.
+const CELL_MATCH_TOLERANCE = 20
+// Minimum brightness standard deviation of the whole frame; sampled on a sparse pixel grid.
+const MIN_FRAME_CONTRAST = 12
+const CONTRAST_SAMPLE_STEP = 7
+
+const getBrightness = (pixels: Uint8ClampedArray, offset: number): number =>
+  (pixels[offset] + pixels[offset + 1] + pixels[offset + 2]) / 3
+
+const getFrameContrast = (pixels: Uint8ClampedArray): number => {
+  let count = 0
+  let sum = 0
+  let sqSum = 0
+
+  for (let offset = 0; offset < pixels.length; offset += CONTRAST_SAMPLE_STEP * 4) {
+    const brightness = getBrightness(pixels, offset)
+    count += 1
+    sum += brightness
+    sqSum += brightness * brightness
+  }
+
+  const mean = sum / Math.max(1, count)
+  return Math.sqrt(Math.max(0, sqSum / Math.max(1, count) - mean * mean))
+}
+
+const sampleCellBlocks = (pixels: Uint8ClampedArray, width: number, rect: Rect): Float32Array => {
+  const blocks = new Float32Array(SAMPLE_GRID_SIZE * SAMPLE_GRID_SIZE)
+  const counts = new Uint32Array(blocks.length)
+  const rectWidth = Math.max(1, rect.right - rect.left)
+  const rectHeight = Math.max(1, rect.bottom - rect.top)
+
+  for (let y = rect.top; y < rect.bottom; y += 1) {
+    const blockRow = Math.min(SAMPLE_GRID_SIZE - 1, Math.floor(((y - rect.top) * SAMPLE_GRID_SIZE) / rectHeight))
+    for (let x = rect.left; x < rect.right; x += 1) {
+      const blockCol = Math.min(SAMPLE_GRID_SIZE - 1, Math.floor(((x - rect.left) * SAMPLE_GRID_SIZE) / rectWidth))
+      const block = blockRow * SAMPLE_GRID_SIZE + blockCol
+      blocks[block] += getBrightness(pixels, (y * width + x) * 4)
+      counts[block] += 1
+    }
+  }
+
+  return blocks.map((sum, block) => sum / Math.max(1, counts[block]))
+}
+
+const getMedian = (values: number[]): number => {
+  const sorted = [...values].sort((first, second) => first - second)
+  const middle = Math.floor(sorted.length / 2)
+  return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle]
+}
+
+// 0-1; 1 when every cell shows the same card back.
+export const scoreFaceDownBoard = (pixels: Uint8ClampedArray, width: number, evalRects: Rect[]): number => {
+  if (evalRects.length < 2 || getFrameContrast(pixels) < MIN_FRAME_CONTRAST) {
+    return 0
+  }
+
+  const cellBlocks = evalRects.map((rect) => sampleCellBlocks(pixels, width, rect))
+  const medianBlocks = Array.from({ length: SAMPLE_GRID_SIZE * SAMPLE_GRID_SIZE }, (_, block) =>
+    getMedian(cellBlocks.map((blocks) => blocks[block])),
+  )
+
+  const matchingCells = cellBlocks.filter((blocks) => {
+    const deviation = blocks.reduce((sum, value, block) => sum + Math.abs(value - medianBlocks[block]), 0)
+    return deviation / blocks.length <= CELL_MATCH_TOLERANCE
+  }).length
+
+  return matchingCells / evalRects.length
+}
@@ -0,0 +1,220 @@
+/*
+  Settings store (localStorage)
+
+  Settings are saved as `{ version, settings }` under one key. New fields need no migration, since
+  missing fields get their defaults; when a stored field is renamed or changes shape, bump
+  `SETTINGS_SCHEMA_VERSION` and add a migration from the previous version, and stored data is
+  migrated step by step on load. Every field is validated on its own, so one bad value only
+  resets that value.
+*/
+import { DEFAULT_CARD_GRID_SIZE, isValidCardGridSize, isValidCardLayoutPercent } from "./cardLayout"
+import { DEFAULT_IMAGE_EXPORT_SETTINGS, isValidImageExportSettings } from "./exportResultImage"
+import { DEFAULT_HISTORY_SETTINGS, isValidHistorySettings } from "./historyStore"
+import { DEFAULT_PROCESSING_OPTIONS, resolveProcessingOptions } from "./processingOptions"
+
+type StoredSettings = {
+  version: number
+  settings: Record<string, unknown>
+}
+
+type LoadSettingsResult = {
+  settings: UserSettings
+  // Human-readable notes about values that were reset to defaults.
+  issues: string[]
+}
+
+const SETTINGS_STORAGE_KEY = "memory-game:settings"
+const SETTINGS_SCHEMA_VERSION = 1
+
+export const AUTO_STOP_SECONDS_LIMITS = { min: 1, max: 600 }
+
+export const DEFAULT_SETTINGS: UserSettings = {
+  isAutoStopEnabled: true,
+  autoStopSeconds: 7,
+  isConnectedPreviewVisible: true,
+  isLiveProcessingEnabled: false,
+  processingOptions: DEFAULT_PROCESSING_OPTIONS,
+  layoutProfiles: [],
+  selectedLayoutProfileId: null,
+  isLayoutDetectionEnabled: true,
+  cardGridSize: DEFAULT_CARD_GRID_SIZE,
+  isDebugPanelEnabled: false,
+  imageExport: DEFAULT_IMAGE_EXPORT_SETTINGS,
+  history: DEFAULT_HISTORY_SETTINGS,
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value)
+
+// Keyed by the version a migration upgrades from.
+const SETTINGS_MIGRATIONS: Record<number, (settings: Record<string, unknown>) => Record<string, unknown>> = {}
+
+const migrateSettings = ({ version, settings }: StoredSettings): Record<string, unknown> => {
+  let migrated = settings
+  for (let fromVersion = version; fromVersion < SETTINGS_SCHEMA_VERSION; fromVersion += 1) {
+    const migrate = SETTINGS_MIGRATIONS[fromVersion]
+    if (!migrate) {
+      throw new Error(`No settings migration from version ${fromVersion}`)
+    }
+
+    migrated = migrate(migrated)
+  }
+
+  return migrated
+}
+
+export const isValidAutoStopSeconds = (value: unknown): value is number =>
+  typeof value === "number" &&
+  Number.isInteger(value) &&
+  value >= AUTO_STOP_SECONDS_LIMITS.min &&
+  value <= AUTO_STOP_SECONDS_LIMITS.max
+
+const isLayoutProfile = (value: unknown): value is CardLayoutProfile =>
+  isRecord(value) &&
+  typeof value.id === "string" &&
+  typeof value.name === "string" &&
+  isRecord(value.layout) &&
+  isValidCardLayoutPercent(value.layout as CardLayoutPercent)
+
+const validateSettings = (stored: Record<string, unknown>): LoadSettingsResult => {
+  const settings = { ...DEFAULT_SETTINGS }
+  const issues: string[] = []
+
+  const readBoolean = (
+    key:
+      | "isAutoStopEnabled"
+      | "isConnectedPreviewVisible"
+      | "isLiveProcessingEnabled"
+      | "isLayoutDetectionEnabled"
+      | "isDebugPanelEnabled",
+  ) => {
+    const value = stored[key]
+    if (value === undefined) {
+      return
+    }
+
+    if (typeof value === "boolean") {
+      settings[key] = value
+      return
+    }
+
+    issues.push(`Invalid value for "${key}"`)
+  }
+
+  readBoolean("isAutoStopEnabled")
+  readBoolean("isConnectedPreviewVisible")
+  readBoolean("isLiveProcessingEnabled")
+  readBoolean("isLayoutDetectionEnabled")
+  readBoolean("isDebugPanelEnabled")
+
+  const { autoStopSeconds } = stored
+  if (autoStopSeconds !== undefined) {
+    if (isValidAutoStopSeconds(autoStopSeconds)) {
+      settings.autoStopSeconds = autoStopSeconds
+    } else {
+      issues.push("Invalid auto stop duration")
+    }
+  }
+
+  if (stored.processingOptions !== undefined) {
+    try {
+      if (!isRecord(stored.processingOptions)) {
+        throw new Error("Processing options must be an object")
+      }
+
+      settings.processingOptions = resolveProcessingOptions(stored.processingOptions)
+    } catch (error) {
+      issues.push(error instanceof Error ? error.message : "Invalid processing options")
+    }
+  }
+
+  const { cardGridSize } = stored
+  if (cardGridSize !== undefined) {
+    if (isRecord(cardGridSize) && isValidCardGridSize(cardGridSize as CardGridSize)) {
+      settings.cardGridSize = { cols: cardGridSize.cols as number, rows: cardGridSize.rows as number }
+    } else {
+      issues.push("Invalid card grid size")
+    }
+  }
+
+  const { imageExport } = stored
+  if (imageExport !== undefined) {
+    if (isRecord(imageExport) && isValidImageExportSettings(imageExport as ImageExportSettings)) {
+      settings.imageExport = {
+        format: imageExport.format as ImageExportFormat,
+        quality: imageExport.quality as number,
+      }
+    } else {
+      issues.push("Invalid image download settings")
+    }
+  }
+
+  const { history } = stored
+  if (history !== undefined) {
+    if (isRecord(history) && isValidHistorySettings(history as HistorySettings)) {
+      settings.history = {
+        isEnabled: history.isEnabled as boolean,
+        isSourceVideoStored: history.isSourceVideoStored as boolean,
+        quotaMb: history.quotaMb as number,
+      }
+    } else {
+      issues.push("Invalid history settings")
+    }
+  }
+
+  if (Array.isArray(stored.layoutProfiles)) {
+    settings.layoutProfiles = stored.layoutProfiles.filter(isLayoutProfile)
+    if (settings.layoutProfiles.length < stored.layoutProfiles.length) {
+      issues.push("Invalid card layout profiles were removed")
+    }
+  } else if (stored.layoutProfiles !== undefined) {
+    issues.push("Invalid card layout profiles")
+  }
+
+  const { selectedLayoutProfileId } = stored
+  if (typeof selectedLayoutProfileId === "string") {
+    if (settings.layoutProfiles.some(({ id }) => id === selectedLayoutProfileId)) {
+      settings.selectedLayoutProfileId = selectedLayoutProfileId
+    } else {
+      issues.push("Selected card layout profile no longer exists")
+    }
+  } else if (selectedLayoutProfileId !== undefined && selectedLayoutProfileId !== null) {
+    issues.push("Invalid selected card layout profile")
+  }
+
+  return { settings, issues }
+}
+
+export const loadSettings = (): LoadSettingsResult => {
+  try {
+    const storedValue = window.localStorage.getItem(SETTINGS_STORAGE_KEY)
+    if (storedValue === null) {
+      return { settings: DEFAULT_SETTINGS, issues: [] }
+    }
+
+    const parsed: unknown = JSON.parse(storedValue)
+    if (!isRecord(parsed) || typeof parsed.version !== "number" || !isRecord(parsed.settings)) {
+      throw new Error("Saved settings are malformed")
+    }
+
+    if (parsed.version > SETTINGS_SCHEMA_VERSION) {
+      throw new Error(`Saved settings come from a newer version (${parsed.version})`)
+    }
+
+    return validateSettings(migrateSettings({ version: parsed.version, settings: parsed.settings }))
+  } catch (error) {
+    return {
+      settings: DEFAULT_SETTINGS,
+      issues: [error instanceof Error ? error.message : "Saved settings could not be read"],
+    }
+  }
+}
+
+export const saveSettings = (settings: UserSettings): void => {
+  try {
+    const stored: StoredSettings = { version: SETTINGS_SCHEMA_VERSION, settings }
+    window.localStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify(stored))
+  } catch {
+    // Storage can be full or disabled; settings still apply for this session.
+  }
+}
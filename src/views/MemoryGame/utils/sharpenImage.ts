@@ -0,0 +1,31 @@
+const clamp = (value: number, min: number, max: number): number => Math.max(min, Math.min(value, max))
+
+// Unsharp-style 3x3 kernel; runs in place and leaves the one-pixel border untouched.
+export const applySharpen = (imageData: ImageData, width: number, height: number, strength: number): void => {
+  if (strength <= 0 || width < 3 || height < 3) {
+    return
+  }
+
+  const source = imageData.data.slice()
+  const target = imageData.data
+  const rowStride = width * 4
+  const neighborWeight = -strength
+  const centerWeight = 1 + 4 * strength
+
+  for (let y = 1; y < height - 1; y += 1) {
+    for (let x = 1; x < width - 1; x += 1) {
+      const offset = (y * width + x) * 4
+
+      for (let channel = 0; channel < 3; channel += 1) {
+        const value =
+          source[offset + channel] * centerWeight +
+          source[offset - 4 + channel] * neighborWeight +
+          source[offset + 4 + channel] * neighborWeight +
+          source[offset - rowStride + channel] * neighborWeight +
+          source[offset + rowStride + channel] * neighborWeight
+
+        target[offset + channel] = clamp(Math.round(value), 0, 255)
+      }
+    }
+  }
+}
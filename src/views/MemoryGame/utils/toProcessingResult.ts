@@ -0,0 +1,19 @@
+import type { AnalysisResult } from "./processingWorkerProtocol"
+import { readBlobAsDataUrl } from "./readBlobAsDataUrl"
+
+// Worker results carry Blobs; the UI renders data URLs so results stay valid without revoking anything.
+// Every call starts a new run unless the caller passes the id of the run the result belongs to.
+export const toProcessingResult = async (
+  { diagnostics, ...analysis }: AnalysisResult,
+  runId: string = crypto.randomUUID(),
+): Promise<ProcessingResult> => ({
+  ...analysis,
+  runId,
+  imageUrl: await readBlobAsDataUrl(analysis.image),
+  diagnostics: diagnostics && {
+    baselineImageUrl: await readBlobAsDataUrl(diagnostics.baselineImage),
+    candidateImageUrls: await Promise.all(
+      diagnostics.candidateImages.map((images) => Promise.all(images.map(readBlobAsDataUrl))),
+    ),
+  },
+})
@@ -0,0 +1,35 @@
+// Decoding reads the file in slices, but the source video is kept for reprocessing and the frame picker and can be
+// stored with history entries in IndexedDB, so very large files are rejected up front.
+const MAX_VIDEO_FILE_BYTES = 1024 * 1024 * 1024
+
+// Some platforms report no MIME type for these containers (notably .mkv), so the extension decides then.
+const VIDEO_FILE_EXTENSION_PATTERN = /\.(mp4|m4v|webm|mov|mkv)$/i
+
+const formatMegabytes = (bytes: number): string => `${Math.round(bytes / (1024 * 1024))} MB`
+
+// Returns why the file cannot be processed, or null when it looks like a usable video.
+export const validateVideoFile = (file: File): ErrorNotice | null => {
+  const isVideoType = file.type ? file.type.startsWith("video/") : VIDEO_FILE_EXTENSION_PATTERN.test(file.name)
+  if (!isVideoType) {
+    return {
+      title: "Unsupported File Type",
+      description: `${file.name} is ${file.type ? `a ${file.type} file` : "not a recognized video file"}. Use an MP4, WebM or MOV recording.`,
+    }
+  }
+
+  if (file.size === 0) {
+    return {
+      title: "Empty Video File",
+      description: `${file.name} contains no data.`,
+    }
+  }
+
+  if (file.size > MAX_VIDEO_FILE_BYTES) {
+    return {
+      title: "Video Too Large",
+      description: `${file.name} is ${formatMegabytes(file.size)}; videos up to ${formatMegabytes(MAX_VIDEO_FILE_BYTES)} are supported.`,
+    }
+  }
+
+  return null
+}
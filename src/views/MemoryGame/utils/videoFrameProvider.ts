@@ -0,0 +1,32 @@
+import { createVideoElementFrameProvider } from "./createVideoElementFrameProvider"
+import { createWebCodecsFrameProvider } from "./createWebCodecsFrameProvider"
+
+/*
+  Shared frame source for the processing pipeline. The worker only sees decoded frames by
+  timestamp, so it does not care whether they come from WebCodecs or an HTMLVideoElement.
+*/
+export type VideoFrameProvider = {
+  kind: "webcodecs" | "video-element"
+  // Seconds. May be Infinity/NaN for recordings without a duration header.
+  duration: number
+  width: number
+  height: number
+  // Returned frames are owned by the caller, which must close (or transfer) them.
+  readFrame: (time: number) => Promise<ImageBitmap | VideoFrame>
+  close: () => void
+}
+
+const isWebCodecsSupported = (): boolean =>
+  typeof VideoDecoder !== "undefined" && typeof EncodedVideoChunk !== "undefined" && typeof VideoFrame !== "undefined"
+
+export const createVideoFrameProvider = async (blob: Blob): Promise<VideoFrameProvider> => {
+  if (isWebCodecsSupported()) {
+    try {
+      return await createWebCodecsFrameProvider(blob)
+    } catch {
+      // Unknown container/codec: fall back to the seek-based decoder below.
+    }
+  }
+
+  return createVideoElementFrameProvider(blob)
+}